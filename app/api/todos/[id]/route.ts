@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+
+import { todoSchema, todoUpdateSchema } from "@/lib/todo"
+import { BlockedError, DependencyCycleError } from "@/lib/dependencies"
+import { dependencyError, notFound, parseBody, withStoreErrors } from "@/lib/server/api"
+import { deleteTodo, getTodo, putTodo, updateTodo } from "@/lib/server/todo-store"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export const GET = withStoreErrors(async (_request: Request, { params }: RouteContext) => {
+  const { id } = await params
+  const todo = await getTodo(id)
+  return todo ? NextResponse.json(todo) : notFound(id)
+})
+
+// Creates or replaces the todo with this id
+export const PUT = withStoreErrors(async (request: Request, { params }: RouteContext) => {
+  const { id } = await params
+  const body = await parseBody(request, todoSchema)
+  if ("response" in body) return body.response
+
+  try {
+    return NextResponse.json(await putTodo({ ...body.data, id }))
+  } catch (error) {
+    if (error instanceof DependencyCycleError) return dependencyError(error)
+    throw error
+  }
+})
+
+// Setting `completed` behaves like the toggle route, including ?force=true for a blocked todo
+export const PATCH = withStoreErrors(async (request: Request, { params }: RouteContext) => {
+  const { id } = await params
+  const force = new URL(request.url).searchParams.get("force") === "true"
+  const body = await parseBody(request, todoUpdateSchema)
+  if ("response" in body) return body.response
+
+  try {
+    const todo = await updateTodo(id, body.data, force)
+    return todo ? NextResponse.json(todo) : notFound(id)
+  } catch (error) {
+    if (error instanceof DependencyCycleError || error instanceof BlockedError) return dependencyError(error)
+    throw error
+  }
+})
+
+export const DELETE = withStoreErrors(async (_request: Request, { params }: RouteContext) => {
+  const { id } = await params
+  return (await deleteTodo(id)) ? new NextResponse(null, { status: 204 }) : notFound(id)
+})
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+
+import { BlockedError } from "@/lib/dependencies"
+import { dependencyError, notFound, withStoreErrors } from "@/lib/server/api"
+import { toggleTodo } from "@/lib/server/todo-store"
+
+// ?force=true completes a todo even while its blockers are unfinished
+export const POST = withStoreErrors(async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params
+  const force = new URL(request.url).searchParams.get("force") === "true"
+  try {
+    const todo = await toggleTodo(id, force)
+    return todo ? NextResponse.json(todo) : notFound(id)
+  } catch (error) {
+    if (error instanceof BlockedError) return dependencyError(error)
+    throw error
+  }
+})
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+import { todoInputSchema, todoSchema } from "@/lib/todo"
+import { parseBody, withStoreErrors } from "@/lib/server/api"
+import { createTodo, listTodos, replaceTodos } from "@/lib/server/todo-store"
+
+export const dynamic = "force-dynamic"
+
+export const GET = withStoreErrors(async () => {
+  return NextResponse.json({ todos: await listTodos() })
+})
+
+export const POST = withStoreErrors(async (request: Request) => {
+  const body = await parseBody(request, todoInputSchema)
+  if ("response" in body) return body.response
+
+  return NextResponse.json(await createTodo(body.data), { status: 201 })
+})
+
+// Replaces the whole list, e.g. when a client syncs its full state
+export const PUT = withStoreErrors(async (request: Request) => {
+  const body = await parseBody(request, z.object({ todos: z.array(todoSchema) }))
+  if ("response" in body) return body.response
+
+  return NextResponse.json({ todos: await replaceTodos(body.data.todos) })
+})
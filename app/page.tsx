@@ -1,5 +1,5 @@
 import TodoApp from "../todo-app"
 
 export default function Page() {
-  return <TodoApp />
+  return <TodoApp backend={process.env.NEXT_PUBLIC_TODO_BACKEND === "api" ? "api" : "browser"} />
 }
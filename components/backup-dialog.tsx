@@ -0,0 +1,189 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle, FileDown } from "lucide-react"
+import {
+  BackupError,
+  importStrategies,
+  parseBackup,
+  planImport,
+  serializeBackup,
+  type Backup,
+  type ImportPlan,
+  type ImportStrategy,
+} from "@/lib/backup"
+import { downloadFile } from "@/lib/download"
+import type { Settings } from "@/lib/settings"
+import { loadQuarantine } from "@/lib/storage/schema"
+import type { Todo } from "@/lib/todo"
+
+const strategyLabels: Record<ImportStrategy, { label: string; description: string }> = {
+  replace: { label: "Replace", description: "Swap every task and setting here for the backup's" },
+  merge: {
+    label: "Merge by id",
+    description: "Update tasks that exist in both, keeping the latest edit of each field",
+  },
+  append: { label: "Append as new", description: "Add every task in the backup as a copy, leaving these untouched" },
+}
+
+interface BackupDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  todos: Todo[]
+  settings: Settings
+  onImport: (plan: ImportPlan, backup: Backup) => void
+}
+
+function Count({ label, value }: { label: string; value: number }) {
+  return (
+    <div className="rounded-md border bg-gray-50 p-2 text-center">
+      <p className="text-lg font-semibold text-gray-900">{value}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  )
+}
+
+// Downloads everything as a JSON file, and previews what importing one would change before doing it
+export function BackupDialog({ open, onOpenChange, todos, settings, onImport }: BackupDialogProps) {
+  const [backup, setBackup] = useState<Backup | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [strategy, setStrategy] = useState<ImportStrategy>("merge")
+
+  useEffect(() => {
+    if (!open) return
+    setBackup(null)
+    setError(null)
+    setStrategy("merge")
+  }, [open])
+
+  const plan = backup && planImport(todos, settings, backup, strategy)
+
+  const exportBackup = () => {
+    const json = serializeBackup(todos, settings, loadQuarantine())
+    downloadFile(`todos-backup-${format(new Date(), "yyyy-MM-dd")}.json`, json, "application/json")
+  }
+
+  const readFile = async (file: File | undefined) => {
+    setBackup(null)
+    setError(null)
+    if (!file) return
+    try {
+      setBackup(parseBackup(await file.text()))
+    } catch (error) {
+      if (!(error instanceof BackupError)) throw error
+      setError(error.message)
+    }
+  }
+
+  const confirm = () => {
+    if (!plan || !backup) return
+    onImport(plan, backup)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup & restore</DialogTitle>
+          <DialogDescription>Tasks, lists, saved views and tag colours, in one JSON file.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">Export</h3>
+            <Button variant="outline" onClick={exportBackup}>
+              <FileDown className="w-4 h-4 mr-2" />
+              Download backup ({todos.length} tasks)
+            </Button>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">Import</h3>
+            <Input type="file" accept=".json,application/json" onChange={(e) => readFile(e.target.files?.[0])} />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {backup && plan && (
+              <>
+                <p className="text-sm text-gray-600">
+                  {backup.todos.length} tasks and {backup.settings.lists.length} lists
+                  {backup.exportedAt && `, exported ${format(backup.exportedAt, "MMM d, yyyy HH:mm")}`}.
+                </p>
+                {backup.skipped.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {backup.skipped.length} record(s) failed validation and will be moved to quarantine. First
+                      problem: {backup.skipped[0].reason}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <RadioGroup value={strategy} onValueChange={(value) => setStrategy(value as ImportStrategy)}>
+                  {importStrategies.map((option) => (
+                    <div key={option} className="flex items-start gap-2">
+                      <RadioGroupItem value={option} id={`import-${option}`} className="mt-0.5" />
+                      <Label htmlFor={`import-${option}`} className="font-normal">
+                        <span className="font-medium">{strategyLabels[option].label}</span>
+                        <span className="block text-xs text-gray-500">{strategyLabels[option].description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+
+                <div className="grid grid-cols-4 gap-2">
+                  <Count label="Added" value={plan.added} />
+                  <Count label="Updated" value={plan.updated} />
+                  <Count label="Unchanged" value={plan.unchanged} />
+                  <Count label="Removed" value={plan.removed} />
+                </div>
+
+                {plan.conflicts.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium text-gray-700">Conflicts ({plan.conflicts.length})</h4>
+                    <ul className="max-h-32 overflow-y-auto space-y-1 text-xs text-gray-600">
+                      {plan.conflicts.map((conflict) => (
+                        <li key={`${conflict.id}-${conflict.reason}`}>
+                          <span className="font-medium text-gray-800">{conflict.text}</span>: {conflict.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={confirm} disabled={!plan}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useState } from "react"
+import { format, isSameMonth, isToday } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { ChevronLeft, ChevronRight, Plus } from "lucide-react"
+import { calendarDays, calendarTitle, dayKey, shiftCalendar, todosByDay, type CalendarMode } from "@/lib/calendar"
+import { isOverdue, type Todo } from "@/lib/todo"
+import { cn } from "@/lib/utils"
+
+// Drag data type of calendar entries, so other drops onto a day are ignored
+const ENTRY_TYPE = "application/x-todo-entry"
+
+interface CalendarViewProps {
+  todos: Todo[]
+  mode: CalendarMode
+  // Matching todos left out for having no deadline
+  undatedCount: number
+  onModeChange: (mode: CalendarMode) => void
+  onReschedule: (id: string, day: Date) => void
+  onCreate: (day: Date, text: string) => void
+  onOpen: (id: string) => void
+}
+
+function CalendarEntry({ todo, onOpen }: { todo: Todo; onOpen: () => void }) {
+  const deadline = todo.deadline!
+  // 23:59 is the time quick-add gives dates without one, so it is not worth showing
+  const time = deadline.getHours() === 23 && deadline.getMinutes() === 59 ? null : format(deadline, "HH:mm")
+  return (
+    <button
+      type="button"
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(ENTRY_TYPE, todo.id)
+        e.dataTransfer.effectAllowed = "move"
+      }}
+      onClick={onOpen}
+      title={todo.text}
+      className={cn(
+        "block w-full truncate rounded border px-1.5 py-0.5 text-left text-xs transition-colors cursor-grab",
+        isOverdue(todo)
+          ? "bg-red-50 border-red-300 text-red-800"
+          : todo.completed
+            ? "bg-gray-50 border-gray-200 text-gray-500 line-through"
+            : "bg-blue-50 border-blue-200 text-blue-900 hover:border-blue-400",
+      )}
+    >
+      {time && <span className="mr-1 opacity-70">{time}</span>}
+      {todo.text}
+    </button>
+  )
+}
+
+// Todos on their deadlines in a month or week grid; entries can be dragged to another day
+export function CalendarView({
+  todos,
+  mode,
+  undatedCount,
+  onModeChange,
+  onReschedule,
+  onCreate,
+  onOpen,
+}: CalendarViewProps) {
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [dropDay, setDropDay] = useState<string | null>(null)
+  const [creatingDay, setCreatingDay] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+
+  const days = calendarDays(anchor, mode)
+  const byDay = todosByDay(todos)
+
+  const create = (day: Date) => {
+    if (!draft.trim()) return
+    onCreate(day, draft.trim())
+    setDraft("")
+    setCreatingDay(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => setAnchor(shiftCalendar(anchor, mode, -1))} aria-label="Previous">
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setAnchor(new Date())}>
+          Today
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setAnchor(shiftCalendar(anchor, mode, 1))} aria-label="Next">
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <span className="flex-1 font-medium text-gray-800">{calendarTitle(anchor, mode)}</span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && onModeChange(value as CalendarMode)}
+        >
+          <ToggleGroupItem value="month">Month</ToggleGroupItem>
+          <ToggleGroupItem value="week">Week</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-7 border-l border-t text-sm">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="border-r border-b bg-gray-50 px-2 py-1 text-xs font-medium text-gray-500">
+            {format(day, "EEE")}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = dayKey(day)
+          const entries = byDay.get(key) ?? []
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(ENTRY_TYPE)) return
+                e.preventDefault()
+                setDropDay(key)
+              }}
+              onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setDropDay(null)}
+              onDrop={(e) => {
+                setDropDay(null)
+                const id = e.dataTransfer.getData(ENTRY_TYPE)
+                if (!id) return
+                e.preventDefault()
+                onReschedule(id, day)
+              }}
+              className={cn(
+                "group flex flex-col gap-1 border-r border-b p-1 transition-colors",
+                mode === "month" ? "min-h-24" : "min-h-64",
+                mode === "month" && !isSameMonth(day, anchor) && "bg-gray-50/60 text-gray-400",
+                dropDay === key && "bg-blue-50 ring-2 ring-inset ring-blue-400",
+              )}
+            >
+              <span
+                className={cn(
+                  "w-6 h-6 flex items-center justify-center rounded-full text-xs",
+                  isToday(day) && "bg-blue-600 text-white font-semibold",
+                )}
+              >
+                {format(day, "d")}
+              </span>
+              <div className={cn("space-y-1 overflow-y-auto", mode === "month" ? "max-h-24" : "max-h-96")}>
+                {entries.map((todo) => (
+                  <CalendarEntry key={todo.id} todo={todo} onOpen={() => onOpen(todo.id)} />
+                ))}
+              </div>
+              <Popover
+                open={creatingDay === key}
+                onOpenChange={(open) => {
+                  setCreatingDay(open ? key : null)
+                  setDraft("")
+                }}
+              >
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    aria-label={`Add a task on ${format(day, "EEEE, MMMM d")}`}
+                    className="flex flex-1 min-h-6 w-full items-start justify-center rounded text-gray-400 opacity-0 hover:bg-gray-100 group-hover:opacity-100 focus-visible:opacity-100"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent className="w-64 space-y-2">
+                  <p className="text-sm font-medium">New task on {format(day, "EEE, MMM d")}</p>
+                  <Input
+                    autoFocus
+                    placeholder="e.g. Call Anna 3pm !high"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && create(day)}
+                  />
+                  <Button size="sm" onClick={() => create(day)} disabled={!draft.trim()} className="w-full">
+                    Add task
+                  </Button>
+                </PopoverContent>
+              </Popover>
+            </div>
+          )
+        })}
+      </div>
+
+      {undatedCount > 0 && (
+        <p className="text-xs text-gray-500">
+          Not shown: {undatedCount} matching {undatedCount === 1 ? "task" : "tasks"} without a deadline
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import { formatDistanceStrict } from "date-fns"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart"
+import {
+  activityOf,
+  averageTimeToComplete,
+  completionByPriority,
+  rangeOf,
+  statsRanges,
+  type StatsBucket,
+  type StatsRange,
+} from "@/lib/stats"
+import type { Todo } from "@/lib/todo"
+
+const activityConfig = {
+  created: { label: "Created", color: "hsl(var(--chart-1))" },
+  completed: { label: "Completed", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const priorityConfig = {
+  rate: { label: "Completed %", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const overdueConfig = {
+  overdue: { label: "Overdue", color: "hsl(0 72% 51%)" },
+} satisfies ChartConfig
+
+interface DashboardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  todos: Todo[]
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-md border bg-gray-50 p-3">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="text-xl font-semibold text-gray-900">{value}</p>
+    </div>
+  )
+}
+
+// The bundled ChartLegendContent is typed against an older recharts, so series are listed by the title instead
+function ChartSection({ title, config, children }: { title: string; config: ChartConfig; children: React.ReactNode }) {
+  return (
+    <section className="space-y-1">
+      <div className="flex items-center gap-3">
+        <h3 className="flex-1 text-sm font-medium text-gray-700">{title}</h3>
+        {Object.entries(config).map(([key, { label, color }]) => (
+          <span key={key} className="flex items-center gap-1 text-xs text-gray-500">
+            <span className="h-2 w-2 rounded-sm" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+      </div>
+      {children}
+    </section>
+  )
+}
+
+// Charts of what was created, completed and overdue over a chosen number of past days
+export function Dashboard({ open, onOpenChange, todos }: DashboardProps) {
+  const [days, setDays] = useState<StatsRange>(30)
+  const [bucket, setBucket] = useState<StatsBucket>("day")
+
+  const range = rangeOf(days)
+  const activity = activityOf(todos, range, bucket)
+  const byPriority = completionByPriority(todos, range)
+  const average = averageTimeToComplete(todos, range)
+  const created = activity.reduce((sum, point) => sum + point.created, 0)
+  const completed = activity.reduce((sum, point) => sum + point.completed, 0)
+  const createdDone = byPriority.reduce((sum, row) => sum + row.completed, 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dashboard</DialogTitle>
+          <DialogDescription>Tasks in the current list, not counting parents of subtasks.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value) as StatsRange)}>
+            <SelectTrigger className="h-8 w-36 text-sm" aria-label="Date range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {statsRanges.map((range) => (
+                <SelectItem key={range} value={String(range)}>
+                  Last {range} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={bucket}
+            onValueChange={(value) => value && setBucket(value as StatsBucket)}
+          >
+            <ToggleGroupItem value="day">Daily</ToggleGroupItem>
+            <ToggleGroupItem value="week">Weekly</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          <Stat label="Created" value={created} />
+          <Stat label="Completed" value={completed} />
+          <Stat label="Completion rate" value={created > 0 ? `${Math.round((createdDone / created) * 100)}%` : "–"} />
+          <Stat label="Average time to complete" value={average === null ? "–" : formatDistanceStrict(0, average)} />
+        </div>
+
+        <ChartSection title="Created vs. completed" config={activityConfig}>
+          <ChartContainer config={activityConfig} className="aspect-auto h-56 w-full">
+            <BarChart data={activity}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="created" fill="var(--color-created)" radius={2} />
+              <Bar dataKey="completed" fill="var(--color-completed)" radius={2} />
+            </BarChart>
+          </ChartContainer>
+        </ChartSection>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <ChartSection title="Completion rate by priority" config={priorityConfig}>
+            <ChartContainer config={priorityConfig} className="aspect-auto h-48 w-full">
+              <BarChart data={byPriority}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="priority" tickLine={false} axisLine={false} className="capitalize" />
+                <YAxis domain={[0, 100]} unit="%" tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="rate" fill="var(--color-rate)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </ChartSection>
+
+          <ChartSection title="Overdue tasks" config={overdueConfig}>
+            <ChartContainer config={overdueConfig} className="aspect-auto h-48 w-full">
+              <LineChart data={activity}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="overdue" type="monotone" stroke="var(--color-overdue)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </ChartSection>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
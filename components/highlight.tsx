@@ -0,0 +1,20 @@
+import type { Range } from "@/lib/search"
+
+// Renders text with the given ranges marked, e.g. search matches
+export function Highlight({ text, ranges = [] }: { text: string; ranges?: Range[] }) {
+  if (ranges.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  ranges.forEach(([start, end], i) => {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-200 text-inherit rounded-sm px-0.5 -mx-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  })
+  if (position < text.length) parts.push(text.slice(position))
+  return <>{parts}</>
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ListIcon } from "@/components/list-icon"
+import { listColorClasses, listColors, listIcons, type ListColor, type ListIcon as ListIconName, type TodoList } from "@/lib/lists"
+import { cn } from "@/lib/utils"
+
+interface ListDialogProps {
+  open: boolean
+  // The list being edited, or null to create a new one
+  list: TodoList | null
+  onOpenChange: (open: boolean) => void
+  onSave: (values: Omit<TodoList, "id">) => void
+}
+
+export function ListDialog({ open, list, onOpenChange, onSave }: ListDialogProps) {
+  const [name, setName] = useState("")
+  const [color, setColor] = useState<ListColor>("blue")
+  const [icon, setIcon] = useState<ListIconName>("folder")
+
+  useEffect(() => {
+    if (!open) return
+    setName(list?.name ?? "")
+    setColor(list?.color ?? "blue")
+    setIcon(list?.icon ?? "folder")
+  }, [open, list])
+
+  const save = () => {
+    if (name.trim() === "") return
+    onSave({ name: name.trim(), color, icon })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{list ? "Edit list" : "New list"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            placeholder="List name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && save()}
+            autoFocus
+          />
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-600">Colour</span>
+            <div className="flex gap-2">
+              {listColors.map((c) => (
+                <button
+                  key={c}
+                  type="button"
+                  aria-label={c}
+                  onClick={() => setColor(c)}
+                  className={cn(
+                    "w-6 h-6 rounded-full transition-transform hover:scale-110",
+                    listColorClasses[c].dot,
+                    color === c && "ring-2 ring-offset-2 ring-gray-400",
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm text-gray-600">Icon</span>
+            <div className="flex gap-1 flex-wrap">
+              {listIcons.map((i) => (
+                <Button
+                  key={i}
+                  type="button"
+                  size="sm"
+                  variant={icon === i ? "default" : "outline"}
+                  aria-label={i}
+                  onClick={() => setIcon(i)}
+                >
+                  <ListIcon icon={i} className="w-4 h-4" />
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={name.trim() === ""} className="bg-blue-500 hover:bg-blue-600">
+            {list ? "Save" : "Create list"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
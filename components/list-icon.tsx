@@ -0,0 +1,18 @@
+import { BookOpen, Briefcase, Folder, Heart, Home, ShoppingCart, Star, User, type LucideIcon } from "lucide-react"
+import type { ListIcon as ListIconName } from "@/lib/lists"
+
+const icons: Record<ListIconName, LucideIcon> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  user: User,
+  home: Home,
+  star: Star,
+  book: BookOpen,
+  heart: Heart,
+  cart: ShoppingCart,
+}
+
+export function ListIcon({ icon, className }: { icon: ListIconName; className?: string }) {
+  const Icon = icons[icon]
+  return <Icon className={className} />
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Edit3, Inbox, Layers, MoreHorizontal, Plus, Trash2 } from "lucide-react"
+import { ListDialog } from "@/components/list-dialog"
+import { ListIcon } from "@/components/list-icon"
+import { ALL_LISTS, INBOX, listColorClasses, type TodoList } from "@/lib/lists"
+import { cn } from "@/lib/utils"
+
+interface ListSidebarProps {
+  lists: TodoList[]
+  selected: string
+  // Active todo count per sidebar entry, keyed by list id, ALL_LISTS or INBOX
+  activeCounts: Record<string, number>
+  onSelect: (selection: string) => void
+  onCreate: (values: Omit<TodoList, "id">) => void
+  onUpdate: (id: string, values: Omit<TodoList, "id">) => void
+  onDelete: (id: string) => void
+}
+
+// Hides the count while the row's action menu is showing in the same spot
+const badgeClassName = "group-hover/menu-item:opacity-0 group-focus-within/menu-item:opacity-0"
+
+export function ListSidebar({
+  lists,
+  selected,
+  activeCounts,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: ListSidebarProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<TodoList | null>(null)
+  const [deleting, setDeleting] = useState<TodoList | null>(null)
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={selected === ALL_LISTS} onClick={() => onSelect(ALL_LISTS)}>
+              <Layers />
+              <span>All lists</span>
+            </SidebarMenuButton>
+            <SidebarMenuBadge>{activeCounts[ALL_LISTS] ?? 0}</SidebarMenuBadge>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton isActive={selected === INBOX} onClick={() => onSelect(INBOX)}>
+              <Inbox />
+              <span>Inbox</span>
+            </SidebarMenuButton>
+            <SidebarMenuBadge>{activeCounts[INBOX] ?? 0}</SidebarMenuBadge>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Lists</SidebarGroupLabel>
+          <SidebarGroupAction
+            title="New list"
+            onClick={() => {
+              setEditing(null)
+              setDialogOpen(true)
+            }}
+          >
+            <Plus />
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {lists.map((list) => (
+                <SidebarMenuItem key={list.id}>
+                  <SidebarMenuButton isActive={selected === list.id} onClick={() => onSelect(list.id)}>
+                    <ListIcon icon={list.icon} />
+                    <span className="flex-1 truncate">{list.name}</span>
+                    <span className={cn("w-2 h-2 shrink-0 rounded-full", listColorClasses[list.color].dot)} />
+                  </SidebarMenuButton>
+                  <SidebarMenuBadge className={badgeClassName}>{activeCounts[list.id] ?? 0}</SidebarMenuBadge>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">List actions</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem
+                        onClick={() => {
+                          setEditing(list)
+                          setDialogOpen(true)
+                        }}
+                      >
+                        <Edit3 className="w-4 h-4 mr-2" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => setDeleting(list)} className="text-red-600">
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <ListDialog
+        open={dialogOpen}
+        list={editing}
+        onOpenChange={setDialogOpen}
+        onSave={(values) => (editing ? onUpdate(editing.id, values) : onCreate(values))}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete &ldquo;{deleting?.name}&rdquo;?</AlertDialogTitle>
+            <AlertDialogDescription>Its tasks are moved to the inbox.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && onDelete(deleting.id)}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete list
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  )
+}
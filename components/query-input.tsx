@@ -0,0 +1,176 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Bookmark, Search, X } from "lucide-react"
+import { suggestQuery, type QueryError } from "@/lib/query"
+import type { TodoList } from "@/lib/lists"
+import { cn } from "@/lib/utils"
+
+interface QueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  inputRef: React.RefObject<HTMLInputElement | null>
+  error: QueryError | null
+  lists: TodoList[]
+  tags: string[]
+  onSaveView: (name: string) => void
+}
+
+// The search box, which also reads filter terms like priority:high and suggests how to finish them
+export function QueryInput({ value, onChange, inputRef, error, lists, tags, onSaveView }: QueryInputProps) {
+  const [cursor, setCursor] = useState(0)
+  const [focused, setFocused] = useState(false)
+  // Hidden with Escape until the next keystroke
+  const [dismissed, setDismissed] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [viewName, setViewName] = useState("")
+
+  const completion = suggestQuery(value, cursor, { lists, tags })
+  const suggestions = focused && !dismissed ? completion.suggestions : []
+  const active = Math.min(highlighted, suggestions.length - 1)
+
+  const change = (next: string, position = next.length) => {
+    onChange(next)
+    setCursor(position)
+    setDismissed(false)
+    setHighlighted(0)
+  }
+
+  const accept = (suggestion: string) => {
+    // Field names stay open for their value; anything else is a finished term
+    const inserted = suggestion.endsWith(":") ? suggestion : `${suggestion} `
+    const rest = value.slice(completion.end).replace(/^\s+/, "")
+    const position = completion.start + inserted.length
+    change(value.slice(0, completion.start) + inserted + rest, position)
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position))
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setHighlighted((active + step + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === "Tab" || e.key === "Enter") {
+        e.preventDefault()
+        accept(suggestions[active].value)
+        return
+      }
+      if (e.key === "Escape") {
+        setDismissed(true)
+        return
+      }
+    }
+    if (e.key === "Escape") change("")
+  }
+
+  const saveView = () => {
+    if (!viewName.trim()) return
+    onSaveView(viewName.trim())
+    setViewName("")
+    setSaveOpen(false)
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <Input
+          ref={inputRef}
+          type="search"
+          placeholder="Search or filter, e.g. priority:high due:<7d -completed (press / to focus)"
+          value={value}
+          onChange={(e) => change(e.target.value, e.target.selectionStart ?? e.target.value.length)}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+          onKeyDown={onKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          aria-invalid={Boolean(error)}
+          className={cn(
+            "pl-9 pr-16 border-2 border-gray-200 focus:border-blue-400 transition-colors",
+            error && "border-red-300 focus:border-red-400",
+          )}
+        />
+        {value.trim() && !error && (
+          <Popover open={saveOpen} onOpenChange={setSaveOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                size="sm"
+                variant="ghost"
+                aria-label="Save as view"
+                title="Save as view"
+                className="absolute right-9 top-1 h-8 w-8 p-0 text-gray-400 hover:text-gray-600"
+              >
+                <Bookmark className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 space-y-2">
+              <p className="text-sm font-medium">Save as view</p>
+              <Input
+                autoFocus
+                placeholder="View name"
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && saveView()}
+              />
+              <Button size="sm" onClick={saveView} disabled={!viewName.trim()} className="w-full">
+                Save
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+        {value && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => change("")}
+            aria-label="Clear search"
+            className="absolute right-1 top-1 h-8 w-8 p-0 text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+        {suggestions.length > 0 && (
+          <div role="listbox" className="absolute z-20 mt-1 w-full rounded-md border bg-white shadow-md py-1">
+            {suggestions.map((suggestion, i) => (
+              <button
+                key={suggestion.value}
+                type="button"
+                role="option"
+                aria-selected={i === active}
+                // Keeps focus in the input
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => accept(suggestion.value)}
+                onMouseEnter={() => setHighlighted(i)}
+                className={cn(
+                  "flex w-full items-baseline gap-2 px-3 py-1 text-left text-sm",
+                  i === active && "bg-gray-100",
+                )}
+              >
+                <code className="font-mono text-gray-900">{suggestion.value}</code>
+                <span className="truncate text-xs text-gray-500">{suggestion.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600">
+          {error.message}
+          {error.end > error.start && (
+            <>
+              {" "}
+              in <code className="rounded bg-red-50 px-1 font-mono">{value.slice(error.start, error.end)}</code>
+            </>
+          )}
+        </p>
+      )}
+    </div>
+  )
+}
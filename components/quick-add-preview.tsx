@@ -0,0 +1,61 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Calendar, Repeat, Sparkles, X } from "lucide-react"
+import { PriorityBadge, TagBadge } from "@/components/todo-badges"
+import { formatDeadline } from "@/lib/todo"
+import { describeRule } from "@/lib/repeat-rule"
+import { tagColor } from "@/lib/tags"
+import type { ListColor } from "@/lib/lists"
+import type { QuickAdd, QuickAddPart } from "@/lib/quick-add"
+
+interface QuickAddPreviewProps {
+  parsed: QuickAdd
+  tagColors: Record<string, ListColor>
+  // Keeps a recognised part in the title as typed instead
+  onIgnore: (part: QuickAddPart) => void
+}
+
+function IgnoreButton({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button type="button" aria-label={`Keep ${label} in the title`} onClick={onClick} className="ml-0.5 hover:opacity-70">
+      <X className="w-3 h-3" />
+    </button>
+  )
+}
+
+// Shows what the quick-add parser recognised in the title before the task is added
+export function QuickAddPreview({ parsed, tagColors, onIgnore }: QuickAddPreviewProps) {
+  const { deadline, priority, tags, repeat } = parsed
+  if (!deadline && !priority && !tags && !repeat) return null
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap text-xs">
+      <Sparkles className="w-3 h-3 text-purple-500" />
+      {deadline && (
+        <Badge variant="outline" className="text-xs flex items-center gap-1 bg-blue-100 text-blue-800 border-blue-200">
+          <Calendar className="w-3 h-3" />
+          {formatDeadline(deadline)}
+          <IgnoreButton label="the date" onClick={() => onIgnore("deadline")} />
+        </Badge>
+      )}
+      {priority && (
+        <PriorityBadge priority={priority} className="text-xs pr-1">
+          <IgnoreButton label="the priority" onClick={() => onIgnore("priority")} />
+        </PriorityBadge>
+      )}
+      {tags?.map((tag) => (
+        <TagBadge key={tag} name={tag} color={tagColor(tag, tagColors)} className="pr-1">
+          <IgnoreButton label="the tags" onClick={() => onIgnore("tags")} />
+        </TagBadge>
+      ))}
+      {repeat && (
+        <Badge variant="outline" className="text-xs flex items-center gap-1 bg-indigo-50 text-indigo-800 border-indigo-200">
+          <Repeat className="w-3 h-3" />
+          {describeRule(repeat)}
+          <IgnoreButton label="the repeat" onClick={() => onIgnore("repeat")} />
+        </Badge>
+      )}
+    </div>
+  )
+}
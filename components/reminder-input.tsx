@@ -0,0 +1,110 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bell, Plus, X } from "lucide-react"
+import { formatOffset, reminderPresets } from "@/lib/reminders"
+
+const units = [
+  { value: "1", label: "minutes" },
+  { value: "60", label: "hours" },
+  { value: "1440", label: "days" },
+]
+
+interface ReminderInputProps {
+  // Minutes before the deadline
+  value: number[]
+  onChange: (reminders: number[]) => void
+  hasDeadline: boolean
+}
+
+export function ReminderInput({ value, onChange, hasDeadline }: ReminderInputProps) {
+  const [amount, setAmount] = useState("")
+  const [unit, setUnit] = useState("1")
+
+  const add = (minutes: number) => {
+    if (!value.includes(minutes)) onChange([...value, minutes].sort((a, b) => a - b))
+  }
+
+  const addCustom = () => {
+    const minutes = Math.round(Number(amount) * Number(unit))
+    if (amount !== "" && minutes >= 0) add(minutes)
+    setAmount("")
+  }
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {value.map((minutes) => (
+            <Badge key={minutes} variant="outline" className="text-xs flex items-center gap-1 bg-amber-50 text-amber-800 border-amber-200">
+              <Bell className="w-3 h-3" />
+              {formatOffset(minutes)}
+              <button
+                type="button"
+                aria-label={`Remove ${formatOffset(minutes)}`}
+                onClick={() => onChange(value.filter((m) => m !== minutes))}
+                className="hover:text-amber-950"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Select value="" onValueChange={(minutes) => add(Number(minutes))}>
+          <SelectTrigger className="flex-1 text-sm">
+            <SelectValue placeholder="Add reminder" />
+          </SelectTrigger>
+          <SelectContent>
+            {reminderPresets
+              .filter((minutes) => !value.includes(minutes))
+              .map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {formatOffset(minutes)}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          placeholder="Custom"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              addCustom()
+            }
+          }}
+          className="w-20 text-sm"
+        />
+        <Select value={unit} onValueChange={setUnit}>
+          <SelectTrigger className="w-24 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {units.map((u) => (
+              <SelectItem key={u.value} value={u.value}>
+                {u.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" size="sm" variant="outline" onClick={addCustom} disabled={amount === ""} className="h-10">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {value.length > 0 && !hasDeadline && (
+        <p className="text-xs text-amber-600">Reminders go off once the task has a deadline.</p>
+      )}
+    </div>
+  )
+}
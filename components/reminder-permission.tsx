@@ -0,0 +1,42 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { BellOff, BellRing } from "lucide-react"
+import type { ReminderPermission as Permission } from "@/hooks/use-reminders"
+
+interface ReminderPermissionProps {
+  permission: Permission | null
+  onRequest: () => void
+}
+
+// Explains how reminders will arrive while the browser is not allowed to show notifications
+export function ReminderPermission({ permission, onRequest }: ReminderPermissionProps) {
+  if (permission === null || permission === "granted") return null
+
+  if (permission === "default") {
+    return (
+      <Alert>
+        <BellRing className="w-4 h-4" />
+        <AlertTitle>Get notified about your reminders</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-2">
+          <span>Allow notifications to be reminded even when this tab is in the background.</span>
+          <Button size="sm" onClick={onRequest} className="shrink-0 bg-blue-500 hover:bg-blue-600">
+            Allow
+          </Button>
+        </AlertDescription>
+      </Alert>
+    )
+  }
+
+  return (
+    <Alert>
+      <BellOff className="w-4 h-4" />
+      <AlertTitle>Notifications are {permission === "denied" ? "blocked" : "not supported"}</AlertTitle>
+      <AlertDescription>
+        Reminders are shown inside the app while it is open.
+        {permission === "denied" && " You can allow notifications for this site in your browser settings."}
+      </AlertDescription>
+    </Alert>
+  )
+}
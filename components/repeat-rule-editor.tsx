@@ -0,0 +1,173 @@
+"use client"
+
+import { format } from "date-fns"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { WEEKDAYS, describeRule, nthWeekdayFor, type RepeatRule } from "@/lib/repeat-rule"
+
+type Preset = "none" | "daily" | "weekdays" | "weekly" | "monthly" | "yearly"
+
+const presetOf = (rule: RepeatRule | null): Preset => {
+  if (!rule) return "none"
+  if (rule.freq === "weekly" && rule.interval === 1 && rule.weekdays?.join() === WEEKDAYS.join()) return "weekdays"
+  return rule.freq
+}
+
+const units = { daily: "days", weekly: "weeks", monthly: "months", yearly: "years" }
+const dayLabels = ["S", "M", "T", "W", "T", "F", "S"]
+const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const ordinals: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" }
+
+interface RepeatRuleEditorProps {
+  value: RepeatRule | null
+  onChange: (rule: RepeatRule | null) => void
+  // The first occurrence, which weekly and monthly rules take their day from
+  anchor: Date
+}
+
+export function RepeatRuleEditor({ value, onChange, anchor }: RepeatRuleEditorProps) {
+  const preset = presetOf(value)
+  const inLastWeek = anchor.getDate() + 7 > new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate()
+
+  const choosePreset = (next: Preset) => {
+    const ends = value && { until: value.until, count: value.count }
+    switch (next) {
+      case "none":
+        return onChange(null)
+      case "daily":
+        return onChange({ freq: "daily", interval: 1, ...ends })
+      case "weekdays":
+        return onChange({ freq: "weekly", interval: 1, weekdays: WEEKDAYS, ...ends })
+      case "weekly":
+        return onChange({ freq: "weekly", interval: 1, weekdays: [anchor.getDay()], ...ends })
+      case "monthly":
+        return onChange({ freq: "monthly", interval: 1, monthDay: anchor.getDate(), ...ends })
+      case "yearly":
+        return onChange({ freq: "yearly", interval: 1, ...ends })
+    }
+  }
+
+  const update = (changes: Partial<RepeatRule>) => value && onChange({ ...value, ...changes })
+
+  return (
+    <div className="space-y-2">
+      <Select value={preset} onValueChange={(next) => choosePreset(next as Preset)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekdays">Every weekday</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="yearly">Yearly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && preset !== "weekdays" && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+            className="h-8 w-16"
+          />
+          <span>{units[value.freq]}</span>
+        </div>
+      )}
+
+      {value && preset === "weekly" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={(value.weekdays ?? []).map(String)}
+          onValueChange={(days) => days.length > 0 && update({ weekdays: days.map(Number).sort() })}
+          className="justify-start"
+        >
+          {dayLabels.map((label, day) => (
+            <ToggleGroupItem key={day} value={String(day)} aria-label={dayNames[day]} className="w-8">
+              {label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {value?.freq === "monthly" && (
+        <Select
+          value={value.nthWeekday ? (value.nthWeekday.nth === -1 ? "last" : "nth") : "date"}
+          onValueChange={(by) =>
+            update(
+              by === "date"
+                ? { monthDay: anchor.getDate(), nthWeekday: undefined }
+                : { monthDay: undefined, nthWeekday: nthWeekdayFor(anchor, by === "last") },
+            )
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="date">On day {anchor.getDate()}</SelectItem>
+            {nthWeekdayFor(anchor).nth <= 4 && (
+              <SelectItem value="nth">
+                On the {ordinals[nthWeekdayFor(anchor).nth]} {dayNames[anchor.getDay()]}
+              </SelectItem>
+            )}
+            {inLastWeek && <SelectItem value="last">On the last {dayNames[anchor.getDay()]}</SelectItem>}
+          </SelectContent>
+        </Select>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={value.until ? "until" : value.count ? "count" : "never"}
+            onValueChange={(ends) =>
+              update({
+                until: ends === "until" ? (value.until ?? anchor) : undefined,
+                count: ends === "count" ? (value.count ?? 10) : undefined,
+              })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never ends</SelectItem>
+              <SelectItem value="until">Ends on</SelectItem>
+              <SelectItem value="count">Ends after</SelectItem>
+            </SelectContent>
+          </Select>
+          {value.until && (
+            <Input
+              type="date"
+              value={format(value.until, "yyyy-MM-dd")}
+              // The whole end day still counts
+              onChange={(e) => e.target.value && update({ until: new Date(`${e.target.value}T23:59:59`) })}
+              className="h-9 flex-1 text-sm"
+            />
+          )}
+          {value.count !== undefined && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className="h-9 w-20"
+              />
+              <span className="text-sm text-gray-600">times</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && <p className="text-xs text-gray-500">{describeRule(value)}</p>}
+    </div>
+  )
+}
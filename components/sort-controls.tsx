@@ -0,0 +1,61 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowUpDown } from "lucide-react"
+import { sortKeyLabels, sortKeys, type SortOrder } from "@/lib/sort"
+
+interface SortControlsProps {
+  order: SortOrder
+  onChange: (order: SortOrder) => void
+}
+
+// Picks the sort order of the current tab, with a secondary key for ties
+export function SortControls({ order, onChange }: SortControlsProps) {
+  return (
+    <div className="flex items-center gap-2 text-sm text-gray-600">
+      <ArrowUpDown className="w-4 h-4" />
+      <span>Sort by</span>
+      <Select
+        value={order.by}
+        onValueChange={(value) => {
+          const by = value as SortOrder["by"]
+          onChange({ by, then: by === "manual" || order.then === by ? null : order.then })
+        }}
+      >
+        <SelectTrigger className="h-8 w-36 text-sm" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortKeys.map((key) => (
+            <SelectItem key={key} value={key}>
+              {sortKeyLabels[key]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {order.by !== "manual" && (
+        <>
+          <span>then</span>
+          <Select
+            value={order.then ?? "none"}
+            onValueChange={(value) => onChange({ ...order, then: value === "none" ? null : (value as SortOrder["by"]) })}
+          >
+            <SelectTrigger className="h-8 w-36 text-sm" aria-label="Then by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Nothing else</SelectItem>
+              {sortKeys
+                .filter((key) => key !== "manual" && key !== order.by)
+                .map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {sortKeyLabels[key]}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </>
+      )}
+    </div>
+  )
+}
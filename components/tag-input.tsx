@@ -0,0 +1,73 @@
+"use client"
+
+import { useId, useState } from "react"
+import { X } from "lucide-react"
+import { TagBadge } from "@/components/todo-badges"
+import { normalizeTag, normalizeTags, tagColor } from "@/lib/tags"
+import type { ListColor } from "@/lib/lists"
+import { cn } from "@/lib/utils"
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  // Existing tag names offered while typing
+  suggestions: string[]
+  tagColors: Record<string, ListColor>
+  className?: string
+}
+
+// Tags are added with Enter or a comma and the last one is removed with Backspace on an empty field
+export function TagInput({ value, onChange, suggestions, tagColors, className }: TagInputProps) {
+  const [text, setText] = useState("")
+  const listId = useId()
+
+  const add = () => {
+    if (normalizeTag(text) !== "") onChange(normalizeTags([...value, text]) ?? [])
+    setText("")
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-1 min-h-9 px-2 py-1 border-2 border-gray-200 rounded-md focus-within:border-blue-400 transition-colors",
+        className,
+      )}
+    >
+      {value.map((tag) => (
+        <TagBadge key={tag} name={tag} color={tagColor(tag, tagColors)} className="pr-1">
+          <button
+            type="button"
+            aria-label={`Remove ${tag}`}
+            onClick={() => onChange(value.filter((t) => t !== tag))}
+            className="ml-0.5 hover:text-gray-900"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </TagBadge>
+      ))}
+      <input
+        list={listId}
+        value={text}
+        placeholder={value.length === 0 ? "Add tags..." : ""}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault()
+            add()
+          } else if (e.key === "Backspace" && text === "" && value.length > 0) {
+            onChange(value.slice(0, -1))
+          }
+        }}
+        onBlur={add}
+        className="flex-1 min-w-[6rem] bg-transparent text-sm outline-none"
+      />
+      <datalist id={listId}>
+        {suggestions
+          .filter((tag) => !value.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Trash2 } from "lucide-react"
+import { listColorClasses, listColors, type ListColor } from "@/lib/lists"
+import { normalizeTag, tagColor } from "@/lib/tags"
+import { cn } from "@/lib/utils"
+
+interface TagManagerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tags: { name: string; count: number }[]
+  tagColors: Record<string, ListColor>
+  onRename: (from: string, to: string) => void
+  onRecolor: (name: string, color: ListColor) => void
+  onDelete: (name: string) => void
+}
+
+function TagRow({
+  name,
+  count,
+  color,
+  existingNames,
+  onRename,
+  onRecolor,
+  onDelete,
+}: {
+  name: string
+  count: number
+  color: ListColor
+  existingNames: Set<string>
+  onRename: (to: string) => void
+  onRecolor: (color: ListColor) => void
+  onDelete: () => void
+}) {
+  const [draft, setDraft] = useState(name)
+  const target = normalizeTag(draft)
+
+  const rename = () => {
+    if (target !== "" && target !== name) onRename(target)
+    else setDraft(name)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <button
+            type="button"
+            aria-label={`Colour of ${name}`}
+            className={cn("w-5 h-5 shrink-0 rounded-full transition-transform hover:scale-110", listColorClasses[color].dot)}
+          />
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-2">
+          <div className="flex gap-2">
+            {listColors.map((c) => (
+              <button
+                key={c}
+                type="button"
+                aria-label={c}
+                onClick={() => onRecolor(c)}
+                className={cn(
+                  "w-6 h-6 rounded-full transition-transform hover:scale-110",
+                  listColorClasses[c].dot,
+                  color === c && "ring-2 ring-offset-2 ring-gray-400",
+                )}
+              />
+            ))}
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <div className="flex-1 min-w-0">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && rename()}
+          onBlur={rename}
+          className="h-8 text-sm"
+        />
+        {target !== name && existingNames.has(target) && (
+          <p className="text-xs text-amber-600 mt-1">Merges into the existing tag &ldquo;{target}&rdquo;</p>
+        )}
+      </div>
+
+      <span className="w-14 text-right text-xs text-gray-500">
+        {count} {count === 1 ? "task" : "tasks"}
+      </span>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onDelete}
+        title="Remove from all tasks"
+        className="hover:bg-red-100 hover:text-red-600 transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  )
+}
+
+export function TagManager({ open, onOpenChange, tags, tagColors, onRename, onRecolor, onDelete }: TagManagerProps) {
+  const names = new Set(tags.map((tag) => tag.name))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Manage tags</DialogTitle>
+          <DialogDescription>Renaming a tag to the name of another one merges them.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {tags.length === 0 ? (
+            <p className="text-center py-6 text-sm text-gray-500">No tags yet. Add some to your tasks first.</p>
+          ) : (
+            tags.map((tag) => (
+              <TagRow
+                // Re-mount after a rename so the draft starts from the new name
+                key={tag.name}
+                name={tag.name}
+                count={tag.count}
+                color={tagColor(tag.name, tagColors)}
+                existingNames={names}
+                onRename={(to) => onRename(tag.name, to)}
+                onRecolor={(color) => onRecolor(tag.name, color)}
+                onDelete={() => onDelete(tag.name)}
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Check, Plus, X } from "lucide-react"
+import { blockedItems } from "@/lib/dependencies"
+import { isTrashed } from "@/lib/trash"
+import type { Todo } from "@/lib/todo"
+import { cn } from "@/lib/utils"
+
+interface TaskDependenciesProps {
+  todo: Todo
+  todos: Todo[]
+  onAdd: (blockerId: string) => void
+  onRemove: (blockerId: string) => void
+  onOpen: (id: string) => void
+}
+
+function DependencyRow({ todo, onOpen, onRemove }: { todo: Todo; onOpen: () => void; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {todo.completed ? <Check className="w-4 h-4 shrink-0 text-green-600" /> : <span className="w-4 shrink-0" />}
+      <button
+        type="button"
+        onClick={onOpen}
+        className={cn(
+          "flex-1 truncate text-left hover:underline",
+          todo.completed ? "text-gray-500 line-through" : "text-gray-800",
+        )}
+      >
+        {todo.text}
+      </button>
+      {onRemove && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onRemove}
+          title="Remove blocker"
+          aria-label={`Remove blocker ${todo.text}`}
+          className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+        >
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+// The todos this one waits on, which can be added and removed, and the todos waiting on it
+export function TaskDependencies({ todo, todos, onAdd, onRemove, onOpen }: TaskDependenciesProps) {
+  const [picking, setPicking] = useState(false)
+  const byId = new Map(todos.map((t) => [t.id, t]))
+  const blockers = (todo.blockedBy ?? []).flatMap((id) => byId.get(id) ?? [])
+  const blocking = blockedItems(todo, todos)
+  const candidates = todos.filter((t) => t.id !== todo.id && !isTrashed(t) && !todo.blockedBy?.includes(t.id))
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900">Blocked by</h3>
+          <Popover open={picking} onOpenChange={setPicking}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="ghost" className="h-7 text-xs">
+                <Plus className="w-3.5 h-3.5 mr-1" />
+                Add blocker
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 p-0">
+              <Command>
+                <CommandInput placeholder="Find a task..." />
+                <CommandList>
+                  <CommandEmpty>No tasks found</CommandEmpty>
+                  {candidates.map((candidate) => (
+                    <CommandItem
+                      key={candidate.id}
+                      value={`${candidate.text} ${candidate.id}`}
+                      onSelect={() => {
+                        setPicking(false)
+                        onAdd(candidate.id)
+                      }}
+                    >
+                      <span className={cn("truncate", candidate.completed && "text-gray-500 line-through")}>
+                        {candidate.text}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
+        </div>
+        {blockers.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing; this task can be done any time.</p>
+        ) : (
+          blockers.map((blocker) => (
+            <DependencyRow
+              key={blocker.id}
+              todo={blocker}
+              onOpen={() => onOpen(blocker.id)}
+              onRemove={() => onRemove(blocker.id)}
+            />
+          ))
+        )}
+      </div>
+
+      {blocking.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="font-semibold text-gray-900">Blocking</h3>
+          {blocking.map((blocked) => (
+            <DependencyRow key={blocked.id} todo={blocked} onOpen={() => onOpen(blocked.id)} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+"use client"
+
+import { useState } from "react"
+import { format, subHours } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Plus, Trash2 } from "lucide-react"
+import { createId } from "@/lib/id"
+import { formatDuration, type TimeEntry } from "@/lib/todo"
+
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm")
+
+// The span typed into a pair of datetime-local inputs, or why it is not one; a running entry has no end
+const parseSpan = (start: string, end: string | null) => {
+  const [from, to] = [new Date(start), end === null ? new Date() : new Date(end)]
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) return { error: "Enter valid dates" } as const
+  if (from >= to) return { error: "The end must be after the start" } as const
+  return { start: from, end: end === null ? undefined : to } as const
+}
+
+const spanLength = ({ start, end = new Date() }: { start: Date; end?: Date }) =>
+  formatDuration(Math.round((end.getTime() - start.getTime()) / 60000))
+
+function EntryRow({
+  entry,
+  onChange,
+  onDelete,
+}: {
+  entry: TimeEntry
+  onChange: (entry: TimeEntry) => void
+  onDelete: () => void
+}) {
+  const saved = { start: toDateTimeLocal(entry.start), end: entry.end ? toDateTimeLocal(entry.end) : null }
+  const [start, setStart] = useState(saved.start)
+  const [end, setEnd] = useState(saved.end)
+  const span = parseSpan(start, end)
+
+  // The inputs drop seconds, so an untouched entry is left as it is rather than saved rounded
+  const save = () => {
+    if ("error" in span || (start === saved.start && end === saved.end)) return
+    onChange({ ...entry, start: span.start, end: span.end })
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          type="datetime-local"
+          aria-label="Start"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          onBlur={save}
+          className="h-8 text-xs"
+        />
+        {end === null ? (
+          <span className="w-full text-xs text-green-700">Running</span>
+        ) : (
+          <Input
+            type="datetime-local"
+            aria-label="End"
+            value={end}
+            onChange={(e) => setEnd(e.target.value)}
+            onBlur={save}
+            className="h-8 text-xs"
+          />
+        )}
+        <span className="w-16 shrink-0 text-right text-xs text-gray-500">
+          {"error" in span ? "–" : spanLength(span)}
+        </span>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onDelete}
+          title="Delete entry"
+          aria-label="Delete entry"
+          className="h-8 w-8 p-0 hover:bg-red-100 hover:text-red-600"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      {"error" in span && <p className="text-xs text-red-600">{span.error}</p>}
+    </div>
+  )
+}
+
+interface TimeEntriesProps {
+  entries: TimeEntry[]
+  onChange: (entries: TimeEntry[]) => void
+}
+
+// Editable list of a todo's time entries, newest first, with a row for adding one by hand
+export function TimeEntries({ entries, onChange }: TimeEntriesProps) {
+  const [start, setStart] = useState(() => toDateTimeLocal(subHours(new Date(), 1)))
+  const [end, setEnd] = useState(() => toDateTimeLocal(new Date()))
+  const span = parseSpan(start, end)
+
+  const add = () => {
+    if ("error" in span) return
+    const entry = { id: createId(), start: span.start, end: span.end }
+    onChange([...entries, entry].sort((a, b) => a.start.getTime() - b.start.getTime()))
+  }
+
+  return (
+    <div className="space-y-2">
+      {[...entries].reverse().map((entry) => (
+        <EntryRow
+          // Re-mount when the entry is saved so the drafts start from the stored values
+          key={`${entry.id}-${entry.start.getTime()}-${entry.end?.getTime()}`}
+          entry={entry}
+          onChange={(changed) => onChange(entries.map((e) => (e.id === entry.id ? changed : e)))}
+          onDelete={() => onChange(entries.filter((e) => e.id !== entry.id))}
+        />
+      ))}
+      <div className="flex items-center gap-2">
+        <Input
+          type="datetime-local"
+          aria-label="New entry start"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Input
+          type="datetime-local"
+          aria-label="New entry end"
+          value={end}
+          onChange={(e) => setEnd(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button size="sm" variant="outline" onClick={add} disabled={"error" in span} className="h-8 shrink-0">
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {"error" in span && <p className="text-xs text-red-600">{span.error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Square, Timer } from "lucide-react"
+import { useNow } from "@/hooks/use-now"
+import { formatElapsed, runningEntry, trackedTime } from "@/lib/time-tracking"
+import { formatDuration, type Todo } from "@/lib/todo"
+
+// The todo's tracked time, counting up every second while its timer runs
+export function ElapsedTime({ todo }: { todo: Todo }) {
+  const now = useNow(1000)
+  return <span className="tabular-nums">{formatElapsed(trackedTime(todo, now))}</span>
+}
+
+interface TrackedTimeBadgeProps {
+  todo: Todo
+  onStop: () => void
+  className?: string
+}
+
+// Tracked time on a todo row; while the timer runs it counts up and stops the timer when pressed
+export function TrackedTimeBadge({ todo, onStop, className = "" }: TrackedTimeBadgeProps) {
+  if (runningEntry(todo)) {
+    return (
+      <button type="button" onClick={onStop} title="Stop timer">
+        <Badge
+          variant="outline"
+          className={`${className} flex items-center gap-1 bg-green-100 text-green-800 border-green-200`}
+        >
+          <span className="w-1.5 h-1.5 rounded-full bg-green-600 animate-pulse" />
+          <ElapsedTime todo={todo} />
+        </Badge>
+      </button>
+    )
+  }
+  if (!todo.timeEntries?.length) return null
+  return (
+    <Badge variant="outline" className={`${className} flex items-center gap-1`} title="Time tracked">
+      <Timer className="w-3 h-3" />
+      {formatDuration(Math.round(trackedTime(todo) / 60000))}
+    </Badge>
+  )
+}
+
+interface TimerIndicatorProps {
+  todo: Todo
+  onOpen: () => void
+  onStop: () => void
+}
+
+// The running timer, shown in the header whichever list or tab is open
+export function TimerIndicator({ todo, onOpen, onStop }: TimerIndicatorProps) {
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-green-200 bg-green-50 px-3 py-1.5 text-sm">
+      <span className="w-2 h-2 shrink-0 rounded-full bg-green-600 animate-pulse" />
+      <button
+        type="button"
+        onClick={onOpen}
+        title={todo.text}
+        className="flex-1 min-w-0 truncate text-left text-green-900 hover:underline"
+      >
+        {todo.text}
+      </button>
+      <ElapsedTime todo={todo} />
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onStop}
+        title="Stop timer"
+        aria-label="Stop timer"
+        className="h-7 w-7 p-0 hover:bg-green-100"
+      >
+        <Square className="w-3.5 h-3.5 fill-current" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import {
+  barOf,
+  dayOffset,
+  dragBar,
+  pixelsPerDay,
+  timelineRange,
+  timelineTicks,
+  zoomLevels,
+  type BarEdge,
+  type Zoom,
+} from "@/lib/timeline"
+import { isOverdue, type Todo, type TodoChanges } from "@/lib/todo"
+import { cn } from "@/lib/utils"
+
+const LABEL_WIDTH = 160
+
+interface TimelineViewProps {
+  todos: Todo[]
+  zoom: Zoom
+  // Matching todos left out for having neither a start date nor a deadline
+  undatedCount: number
+  onZoomChange: (zoom: Zoom) => void
+  onChange: (id: string, changes: TodoChanges) => void
+  onOpen: (id: string) => void
+}
+
+// A bar or one of its ends being dragged, by whole days so far
+interface Drag {
+  id: string
+  edge: BarEdge
+  startX: number
+  days: number
+}
+
+// Todos as bars from start date to deadline on a scrolling time axis; bars can be dragged or resized
+export function TimelineView({ todos, zoom, undatedCount, onZoomChange, onChange, onOpen }: TimelineViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<Drag | null>(null)
+
+  const now = new Date()
+  const rows = todos.flatMap((todo) => {
+    const bar = barOf(todo)
+    return bar ? [{ todo, bar }] : []
+  })
+  const range = timelineRange(rows.map((row) => row.bar), zoom, now)
+  const ticks = timelineTicks(range, zoom)
+  const scale = pixelsPerDay[zoom]
+  const x = (date: Date) => dayOffset(date, range.start) * scale
+  const width = x(range.end)
+
+  const scrollToToday = () => {
+    const scroller = scrollRef.current
+    if (scroller) scroller.scrollLeft = LABEL_WIDTH + x(new Date()) - scroller.clientWidth / 2
+  }
+  // Start around today, and keep it in view when the scale changes or the first bar appears
+  const empty = rows.length === 0
+  useEffect(() => scrollToToday(), [zoom, empty])
+
+  const startDrag = (e: React.PointerEvent, id: string, edge: BarEdge) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ id, edge, startX: e.clientX, days: 0 })
+  }
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return
+    const days = Math.round((e.clientX - drag.startX) / scale)
+    if (days !== drag.days) setDrag({ ...drag, days })
+  }
+
+  // A bar released where it started was clicked rather than dragged
+  const endDrag = (todo: Todo) => {
+    if (!drag) return
+    if (drag.days !== 0) onChange(todo.id, dragBar(todo, drag.edge, drag.days))
+    else if (drag.edge === "both") onOpen(todo.id)
+    setDrag(null)
+  }
+
+  // Arrows move a bar by a day, with Shift moving its end and Alt its start
+  const onBarKeyDown = (e: React.KeyboardEvent, todo: Todo) => {
+    if (e.key === "Enter") onOpen(todo.id)
+    if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return
+    e.preventDefault()
+    const edge = e.shiftKey ? "end" : e.altKey ? "start" : "both"
+    onChange(todo.id, dragBar(todo, edge, e.key === "ArrowLeft" ? -1 : 1))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Button size="sm" variant="outline" onClick={scrollToToday}>
+          Today
+        </Button>
+        <span className="flex-1" />
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={zoom}
+          onValueChange={(value) => value && onZoomChange(value as Zoom)}
+        >
+          {zoomLevels.map((level) => (
+            <ToggleGroupItem key={level} value={level} className="capitalize">
+              {level}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {empty ? (
+        <div className="text-center py-8 text-gray-500">
+          <div className="text-4xl mb-2">📅</div>
+          <p>No tasks with a start date or deadline</p>
+        </div>
+      ) : (
+        <div ref={scrollRef} className="max-h-96 overflow-auto rounded-md border">
+          <div className="relative" style={{ width: LABEL_WIDTH + width }}>
+            {/* Gridlines and today */}
+            {ticks.map(({ date }) => (
+              <div
+                key={date.toISOString()}
+                className="absolute inset-y-0 border-l border-gray-100"
+                style={{ left: LABEL_WIDTH + x(date) }}
+              />
+            ))}
+            <div className="absolute inset-y-0 z-[1] border-l-2 border-blue-500" style={{ left: LABEL_WIDTH + x(now) }} />
+
+            <div className="sticky top-0 z-20 flex h-8 border-b bg-gray-50 text-xs text-gray-500">
+              <div className="sticky left-0 z-10 shrink-0 bg-gray-50" style={{ width: LABEL_WIDTH }} />
+              <div className="relative flex-1">
+                {ticks.map(({ date, label }) => (
+                  <span key={date.toISOString()} className="absolute top-2 whitespace-nowrap pl-1" style={{ left: x(date) }}>
+                    {label}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {rows.map(({ todo, bar: saved }) => {
+              const dragging = drag?.id === todo.id ? drag : null
+              const bar = dragging ? (barOf({ ...todo, ...dragBar(todo, dragging.edge, dragging.days) }) ?? saved) : saved
+              const overdue = isOverdue(todo, now)
+              const left = x(bar.start)
+              return (
+                <div key={todo.id} className="relative flex h-9 items-center border-b border-gray-100">
+                  <button
+                    type="button"
+                    onClick={() => onOpen(todo.id)}
+                    title={todo.text}
+                    className={cn(
+                      "sticky left-0 z-10 h-full shrink-0 truncate border-r bg-white px-2 text-left text-sm",
+                      todo.completed ? "line-through text-gray-500" : "text-gray-900",
+                    )}
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    {todo.text}
+                  </button>
+                  <div className="relative h-full flex-1" onPointerMove={moveDrag} onPointerUp={() => endDrag(todo)}>
+                    {overdue && now > bar.end && (
+                      <div
+                        className="absolute top-3 h-3 rounded-r bg-red-200"
+                        style={{ left: x(bar.end), width: x(now) - x(bar.end) }}
+                        title="Past the deadline"
+                      />
+                    )}
+                    <div
+                      role="button"
+                      tabIndex={0}
+                      aria-label={`${todo.text}; arrows move it, Shift or Alt with arrows move its end or start`}
+                      onPointerDown={(e) => startDrag(e, todo.id, "both")}
+                      onKeyDown={(e) => onBarKeyDown(e, todo)}
+                      className={cn(
+                        "absolute top-2 h-5 cursor-grab touch-none select-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400",
+                        bar.milestone ? "w-3 h-3 top-3 rotate-45" : "rounded",
+                        overdue ? "bg-red-500" : todo.completed ? "bg-gray-300" : "bg-blue-500",
+                        dragging && "opacity-80",
+                      )}
+                      style={bar.milestone ? { left: left - 6 } : { left, width: Math.max(x(bar.end) - left, 6) }}
+                    >
+                      {!bar.milestone && (
+                        <>
+                          <span
+                            onPointerDown={(e) => startDrag(e, todo.id, "start")}
+                            className="absolute inset-y-0 left-0 w-2 cursor-ew-resize"
+                          />
+                          <span
+                            onPointerDown={(e) => startDrag(e, todo.id, "end")}
+                            className="absolute inset-y-0 right-0 w-2 cursor-ew-resize"
+                          />
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {undatedCount > 0 && (
+        <p className="text-xs text-gray-500">
+          Not shown: {undatedCount} matching {undatedCount === 1 ? "task" : "tasks"} without a start date or deadline
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+import { Badge } from "@/components/ui/badge"
+import { Bell, Calendar, Hash, Lock, Repeat, Star } from "lucide-react"
+import { ListIcon } from "@/components/list-icon"
+import { formatDeadline, isOverdue, type Todo } from "@/lib/todo"
+import { listColorClasses, type ListColor, type TodoList } from "@/lib/lists"
+import { describeRule } from "@/lib/repeat-rule"
+
+export const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case "high":
+      return "bg-red-100 text-red-800 border-red-200"
+    case "medium":
+      return "bg-yellow-100 text-yellow-800 border-yellow-200"
+    case "low":
+      return "bg-green-100 text-green-800 border-green-200"
+    default:
+      return "bg-gray-100 text-gray-800 border-gray-200"
+  }
+}
+
+export const getPriorityIcon = (priority: string) => {
+  switch (priority) {
+    case "high":
+      return <Star className="w-3 h-3 fill-current" />
+    case "medium":
+      return <Star className="w-3 h-3" />
+    case "low":
+      return <Calendar className="w-3 h-3" />
+    default:
+      return null
+  }
+}
+
+interface PriorityBadgeProps {
+  priority: Todo["priority"]
+  className?: string
+  children?: React.ReactNode
+}
+
+export function PriorityBadge({ priority, className = "", children }: PriorityBadgeProps) {
+  return (
+    <Badge variant="outline" className={`${className} ${getPriorityColor(priority)}`}>
+      {getPriorityIcon(priority)}
+      <span className="ml-1 capitalize">{priority}</span>
+      {children}
+    </Badge>
+  )
+}
+
+export function DeadlineBadge({ todo, className = "" }: { todo: Todo; className?: string }) {
+  if (!todo.deadline) return null
+  return (
+    <Badge
+      variant="outline"
+      className={`${className} flex items-center gap-1 ${
+        isOverdue(todo) ? "bg-red-100 text-red-800 border-red-200" : "bg-blue-100 text-blue-800 border-blue-200"
+      }`}
+    >
+      <Calendar className="w-3 h-3" />
+      {formatDeadline(todo.deadline)}
+      {todo.reminders?.length ? <Bell className="w-3 h-3" aria-label="Has reminders" /> : null}
+    </Badge>
+  )
+}
+
+export function ListBadge({ list }: { list: TodoList }) {
+  return (
+    <Badge variant="outline" className={`text-xs flex items-center gap-1 ${listColorClasses[list.color].badge}`}>
+      <ListIcon icon={list.icon} className="w-3 h-3" />
+      {list.name}
+    </Badge>
+  )
+}
+
+interface TagBadgeProps {
+  name: string
+  color: ListColor
+  className?: string
+  children?: React.ReactNode
+}
+
+export function TagBadge({ name, color, className = "", children }: TagBadgeProps) {
+  return (
+    <Badge variant="outline" className={`text-xs flex items-center gap-0.5 ${listColorClasses[color].badge} ${className}`}>
+      <Hash className="w-3 h-3" />
+      {name}
+      {children}
+    </Badge>
+  )
+}
+
+export function RepeatBadge({ todo, className = "" }: { todo: Todo; className?: string }) {
+  if (!todo.repeat) return null
+  return (
+    <Badge variant="outline" className={`${className} flex items-center gap-1 bg-indigo-50 text-indigo-800 border-indigo-200`}>
+      <Repeat className="w-3 h-3" />
+      {describeRule(todo.repeat.rule)}
+    </Badge>
+  )
+}
+
+// Shown while any of the todo's blockers is unfinished, naming them on hover
+export function BlockedBadge({ blockers, className = "" }: { blockers: Todo[]; className?: string }) {
+  if (blockers.length === 0) return null
+  return (
+    <Badge
+      variant="outline"
+      title={`Waiting on ${blockers.map((todo) => todo.text).join(", ")}`}
+      className={`${className} flex items-center gap-1 bg-orange-100 text-orange-800 border-orange-200`}
+    >
+      <Lock className="w-3 h-3" />
+      Blocked
+    </Badge>
+  )
+}
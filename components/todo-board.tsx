@@ -0,0 +1,225 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { AlertTriangle, Gauge } from "lucide-react"
+import { Highlight } from "@/components/highlight"
+import { BlockedBadge, DeadlineBadge, PriorityBadge, RepeatBadge, TagBadge } from "@/components/todo-badges"
+import { blockersOf } from "@/lib/dependencies"
+import { UNTAGGED, statusLabels, type BoardColumn, type BoardGrouping, type Status } from "@/lib/board"
+import type { Priority, Todo } from "@/lib/todo"
+import type { ListColor } from "@/lib/lists"
+import type { SearchMatch } from "@/lib/search"
+import { tagColor } from "@/lib/tags"
+import { cn } from "@/lib/utils"
+
+// Drag data type of board cards, carrying the card's todo and the column it was dragged from
+const CARD_TYPE = "application/x-todo-card"
+
+interface TodoBoardProps {
+  columns: BoardColumn[]
+  // Every todo, including those on no card, to look up what each card waits on
+  allTodos: Todo[]
+  grouping: BoardGrouping
+  tagColors: Record<string, ListColor>
+  // By column key
+  wipLimits: Record<string, number | undefined>
+  matches: Map<string, SearchMatch>
+  onMove: (id: string, from: string, to: string) => void
+  onToggle: (id: string) => void
+  onOpen: (id: string) => void
+  onWipLimitChange: (column: string, limit: number | null) => void
+}
+
+function ColumnTitle({
+  column,
+  grouping,
+  tagColors,
+}: {
+  column: string
+  grouping: BoardGrouping
+  tagColors: Record<string, ListColor>
+}) {
+  if (grouping === "priority") return <PriorityBadge priority={column as Priority} className="text-xs" />
+  if (grouping === "tag" && column !== UNTAGGED) return <TagBadge name={column} color={tagColor(column, tagColors)} />
+  return <span className="font-medium text-gray-700">{grouping === "status" ? statusLabels[column as Status] : "No tags"}</span>
+}
+
+function WipLimitButton({ limit, onChange }: { limit?: number; onChange: (limit: number | null) => void }) {
+  const [draft, setDraft] = useState(limit ? String(limit) : "")
+
+  const save = () => {
+    const value = Number(draft)
+    onChange(Number.isInteger(value) && value > 0 ? value : null)
+  }
+
+  return (
+    <Popover onOpenChange={(open) => open && setDraft(limit ? String(limit) : "")}>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" title="Set WIP limit" aria-label="Set WIP limit" className="h-6 w-6 p-0 text-gray-400">
+          <Gauge className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 space-y-2">
+        <p className="text-sm font-medium">WIP limit</p>
+        <p className="text-xs text-gray-500">The column turns red when it holds more cards than this.</p>
+        <Input
+          type="number"
+          min={1}
+          placeholder="No limit"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+        />
+        <div className="flex gap-2">
+          <Button size="sm" onClick={save} className="flex-1">
+            Save
+          </Button>
+          {limit && (
+            <Button size="sm" variant="outline" onClick={() => onChange(null)}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function BoardCard({
+  todo,
+  column,
+  grouping,
+  tagColors,
+  blockers,
+  match,
+  onToggle,
+  onOpen,
+}: {
+  todo: Todo
+  blockers: Todo[]
+  column: string
+  grouping: BoardGrouping
+  tagColors: Record<string, ListColor>
+  match?: SearchMatch
+  onToggle: () => void
+  onOpen: () => void
+}) {
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(CARD_TYPE, JSON.stringify({ id: todo.id, from: column }))
+        e.dataTransfer.effectAllowed = "move"
+      }}
+      className={cn(
+        "rounded-md border bg-white p-3 shadow-sm space-y-2 cursor-grab hover:border-blue-300 transition-colors",
+        todo.completed && "opacity-75",
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <Checkbox checked={todo.completed} onCheckedChange={onToggle} className="mt-0.5" />
+        <button
+          type="button"
+          onClick={onOpen}
+          className={cn("flex-1 text-left text-sm", todo.completed ? "line-through text-gray-500" : "text-gray-900")}
+        >
+          <Highlight text={todo.text} ranges={match?.text} />
+        </button>
+      </div>
+      <div className="flex items-center gap-1 flex-wrap">
+        {grouping !== "priority" && <PriorityBadge priority={todo.priority} className="text-xs" />}
+        <DeadlineBadge todo={todo} className="text-xs" />
+        <RepeatBadge todo={todo} className="text-xs" />
+        {!todo.completed && <BlockedBadge blockers={blockers} className="text-xs" />}
+        {todo.tags
+          ?.filter((tag) => grouping !== "tag" || tag !== column)
+          .map((tag) => <TagBadge key={tag} name={tag} color={tagColor(tag, tagColors)} />)}
+      </div>
+    </div>
+  )
+}
+
+// Todos in columns by status, priority or tag; dropping a card in another column changes that field
+export function TodoBoard({
+  columns,
+  allTodos,
+  grouping,
+  tagColors,
+  wipLimits,
+  matches,
+  onMove,
+  onToggle,
+  onOpen,
+  onWipLimitChange,
+}: TodoBoardProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const onDrop = (e: React.DragEvent, column: string) => {
+    setDropTarget(null)
+    const data = e.dataTransfer.getData(CARD_TYPE)
+    if (!data) return
+    e.preventDefault()
+    const { id, from } = JSON.parse(data) as { id: string; from: string }
+    onMove(id, from, column)
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2">
+      {columns.map(({ key, todos }) => {
+        const limit = wipLimits[key]
+        const overLimit = limit !== undefined && todos.length > limit
+        return (
+          <div
+            key={key}
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(CARD_TYPE)) return
+              e.preventDefault()
+              setDropTarget(key)
+            }}
+            onDragLeave={(e) => !e.currentTarget.contains(e.relatedTarget as Node) && setDropTarget(null)}
+            onDrop={(e) => onDrop(e, key)}
+            className={cn(
+              "flex w-64 shrink-0 flex-col rounded-lg border-2 bg-gray-50 p-2 transition-colors",
+              overLimit ? "border-red-300 bg-red-50" : "border-transparent",
+              dropTarget === key && "border-blue-400",
+            )}
+          >
+            <div className="flex items-center gap-2 px-1 pb-2">
+              <ColumnTitle column={key} grouping={grouping} tagColors={tagColors} />
+              <Badge
+                variant="secondary"
+                title={overLimit ? "Over the WIP limit" : undefined}
+                className={cn("text-xs", overLimit && "bg-red-100 text-red-800")}
+              >
+                {overLimit && <AlertTriangle className="w-3 h-3 mr-1" />}
+                {limit !== undefined ? `${todos.length} / ${limit}` : todos.length}
+              </Badge>
+              <span className="flex-1" />
+              <WipLimitButton limit={limit} onChange={(value) => onWipLimitChange(key, value)} />
+            </div>
+            <div className="space-y-2 max-h-96 min-h-16 overflow-y-auto">
+              {todos.map((todo) => (
+                <BoardCard
+                  key={todo.id}
+                  todo={todo}
+                  blockers={blockersOf(todo, allTodos)}
+                  column={key}
+                  grouping={grouping}
+                  tagColors={tagColors}
+                  match={matches.get(todo.id)}
+                  onToggle={() => onToggle(todo.id)}
+                  onOpen={() => onOpen(todo.id)}
+                />
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,344 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { format } from "date-fns"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Label } from "@/components/ui/label"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Check, X } from "lucide-react"
+import { priorities, type Todo, type TodoChanges } from "@/lib/todo"
+import { INBOX, type ListColor, type TodoList } from "@/lib/lists"
+import { normalizeTags } from "@/lib/tags"
+import { TagInput } from "@/components/tag-input"
+import { RepeatRuleEditor } from "@/components/repeat-rule-editor"
+import { ReminderInput } from "@/components/reminder-input"
+import { repeatRuleSchema } from "@/lib/repeat-rule"
+import { changesForOccurrence, changesForSeries } from "@/lib/recurrence"
+
+// datetime-local value, empty for none
+const dateTimeLocalSchema = z
+  .string()
+  .refine((value) => value === "" || !isNaN(new Date(value).getTime()), "Enter a valid date")
+
+const todoFormSchema = z
+  .object({
+    text: z.string().trim().min(1, "Title is required"),
+    description: z.string().trim(),
+    priority: z.enum(priorities),
+    deadline: dateTimeLocalSchema,
+    startDate: dateTimeLocalSchema,
+    // Hours of work, empty for no estimate
+    duration: z.string().refine((value) => value === "" || Number(value) > 0, "Enter a number of hours"),
+    reminders: z.array(z.number().int().nonnegative()),
+    listId: z.string(),
+    tags: z.array(z.string()),
+    repeat: repeatRuleSchema.nullable(),
+    // For recurring todos: whether the edit applies to this occurrence only or to the ones after it too
+    scope: z.enum(["occurrence", "series"]),
+  })
+  .refine((values) => !values.startDate || !values.deadline || values.startDate <= values.deadline, {
+    message: "Start must not be after the deadline",
+    path: ["startDate"],
+  })
+
+type TodoFormValues = z.infer<typeof todoFormSchema>
+
+const toDateTimeLocal = (date?: Date) => (date ? format(date, "yyyy-MM-dd'T'HH:mm") : "")
+
+const toFormValues = (todo: Todo): TodoFormValues => ({
+  text: todo.text,
+  description: todo.description ?? "",
+  priority: todo.priority,
+  deadline: toDateTimeLocal(todo.deadline),
+  startDate: toDateTimeLocal(todo.startDate),
+  duration: todo.duration ? String(Math.round((todo.duration / 60) * 100) / 100) : "",
+  reminders: todo.reminders ?? [],
+  listId: todo.listId ?? INBOX,
+  tags: todo.tags ?? [],
+  repeat: todo.repeat?.rule ?? null,
+  scope: "series",
+})
+
+const toChanges = (todo: Todo, values: TodoFormValues): TodoChanges => {
+  const changes: TodoChanges = {
+    text: values.text,
+    description: values.description || undefined,
+    priority: values.priority,
+    deadline: values.deadline ? new Date(values.deadline) : undefined,
+    startDate: values.startDate ? new Date(values.startDate) : undefined,
+    duration: values.duration ? Math.max(1, Math.round(Number(values.duration) * 60)) : undefined,
+    reminders: values.reminders.length > 0 ? values.reminders : undefined,
+    listId: values.listId === INBOX ? undefined : values.listId,
+    tags: normalizeTags(values.tags),
+    repeat: values.repeat
+      ? { rule: values.repeat, occurrence: todo.repeat?.occurrence ?? 1, series: todo.repeat?.series }
+      : undefined,
+  }
+  return values.scope === "occurrence" ? changesForOccurrence(todo, changes) : changesForSeries(todo, changes)
+}
+
+interface TodoEditorProps {
+  todo: Todo
+  lists: TodoList[]
+  // Existing tag names offered in the tags field
+  tags: string[]
+  tagColors: Record<string, ListColor>
+  onSave: (changes: TodoChanges) => void
+  onCancel: () => void
+}
+
+export function TodoEditor({ todo, lists, tags, tagColors, onSave, onCancel }: TodoEditorProps) {
+  const form = useForm<TodoFormValues>({
+    resolver: zodResolver(todoFormSchema),
+    defaultValues: toFormValues(todo),
+  })
+  const deadline = form.watch("deadline")
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => onSave(toChanges(todo, values)))}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+        className="space-y-3"
+      >
+        <FormField
+          control={form.control}
+          name="text"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Title</FormLabel>
+              <FormControl>
+                <Input autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="Add a description (optional)..." className="resize-none" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="capitalize">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {priorities.map((p) => (
+                      <SelectItem key={p} value={p} className="capitalize">
+                        {p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="deadline"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Deadline</FormLabel>
+                <div className="flex gap-1">
+                  <FormControl>
+                    <Input type="datetime-local" className="text-sm" {...field} />
+                  </FormControl>
+                  {field.value && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => field.onChange("")}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start</FormLabel>
+                <div className="flex gap-1">
+                  <FormControl>
+                    <Input type="datetime-local" className="text-sm" {...field} />
+                  </FormControl>
+                  {field.value && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => field.onChange("")}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="duration"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Estimate (hours)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={0.25} placeholder="None" className="text-sm" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="reminders"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reminders</FormLabel>
+              <ReminderInput value={field.value} onChange={field.onChange} hasDeadline={deadline !== ""} />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="listId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>List</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={INBOX}>Inbox</SelectItem>
+                  {lists.map((list) => (
+                    <SelectItem key={list.id} value={list.id}>
+                      {list.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <TagInput value={field.value} onChange={field.onChange} suggestions={tags} tagColors={tagColors} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="repeat"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Repeat</FormLabel>
+              <RepeatRuleEditor
+                value={field.value}
+                onChange={field.onChange}
+                anchor={deadline ? new Date(deadline) : new Date()}
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {todo.repeat && (
+          <FormField
+            control={form.control}
+            name="scope"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Apply changes to</FormLabel>
+                <FormControl>
+                  <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-4">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="occurrence" id={`${todo.id}-occurrence`} />
+                      <Label htmlFor={`${todo.id}-occurrence`} className="font-normal">
+                        This occurrence
+                      </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value="series" id={`${todo.id}-series`} />
+                      <Label htmlFor={`${todo.id}-series`} className="font-normal">
+                        This and following
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={onCancel}>
+            <X className="w-4 h-4 mr-1" />
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" className="bg-green-500 hover:bg-green-600">
+            <Check className="w-4 h-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,337 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Edit3,
+  Eye,
+  GripVertical,
+  ListPlus,
+  Play,
+  SkipForward,
+  Square,
+  Trash2,
+} from "lucide-react"
+import { TodoEditor } from "@/components/todo-editor"
+import { Highlight } from "@/components/highlight"
+import { BlockedBadge, DeadlineBadge, ListBadge, PriorityBadge, RepeatBadge, TagBadge } from "@/components/todo-badges"
+import { TrackedTimeBadge } from "@/components/time-tracking"
+import { isOverdue, type Todo, type TodoChanges } from "@/lib/todo"
+import type { ListColor, TodoList } from "@/lib/lists"
+import { tagColor } from "@/lib/tags"
+import { snippet, type SearchMatch } from "@/lib/search"
+import { runningEntry } from "@/lib/time-tracking"
+import type { Progress as SubtaskProgress } from "@/lib/subtasks"
+
+// Drag data type, so drops of text or files from elsewhere are ignored
+const DRAG_TYPE = "application/x-todo-id"
+
+interface TodoItemProps {
+  todo: Todo
+  index: number
+  // Nesting level in the subtask tree, 0 for top-level tasks
+  depth: number
+  // Shown as a badge, e.g. when several lists are mixed in one view
+  list?: TodoList
+  lists: TodoList[]
+  // Every tag name in use, for the editor's suggestions
+  tags: string[]
+  tagColors: Record<string, ListColor>
+  editing: boolean
+  collapsed: boolean
+  // Completion of all descendants, null for tasks without subtasks
+  progress: SubtaskProgress | null
+  // Where the current search matched, if a search is active
+  match?: SearchMatch | null
+  // In manual sort order the todo can be dragged, or moved with the buttons or Alt+Up/Down
+  sortable: boolean
+  onToggle: () => void
+  onToggleCollapsed: () => void
+  onView: () => void
+  onEdit: () => void
+  onSaveEdit: (changes: TodoChanges) => void
+  onCancelEdit: () => void
+  onDelete: () => void
+  // Moves a recurring todo on to its next occurrence
+  onSkip: () => void
+  onAddSubtask: (text: string) => void
+  onMove: (direction: "up" | "down") => void
+  // Another todo was dropped on this one
+  onDropTodo: (id: string, place: "before" | "after") => void
+  // Starts this todo's timer, or stops it if it is running
+  onTimer: () => void
+  // Unfinished todos this one waits on
+  blockers: Todo[]
+}
+
+export function TodoItem({
+  todo,
+  index,
+  depth,
+  list,
+  lists,
+  tags,
+  tagColors,
+  editing,
+  collapsed,
+  progress,
+  match,
+  sortable,
+  onToggle,
+  onToggleCollapsed,
+  onView,
+  onEdit,
+  onSaveEdit,
+  onCancelEdit,
+  onDelete,
+  onSkip,
+  onAddSubtask,
+  onMove,
+  onDropTodo,
+  onTimer,
+  blockers,
+}: TodoItemProps) {
+  const [addingSubtask, setAddingSubtask] = useState(false)
+  const [subtaskText, setSubtaskText] = useState("")
+  const [dropPlace, setDropPlace] = useState<"before" | "after" | null>(null)
+
+  const addSubtask = () => {
+    if (subtaskText.trim() !== "") {
+      onAddSubtask(subtaskText.trim())
+      setSubtaskText("")
+    }
+  }
+
+  // Keeps focus on the button after the row moves, so it can be pressed again
+  const move = (e: React.MouseEvent<HTMLButtonElement>, direction: "up" | "down") => {
+    const button = e.currentTarget
+    onMove(direction)
+    requestAnimationFrame(() => button.focus())
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!sortable || !e.altKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return
+    if ((e.target as HTMLElement).closest("input, textarea")) return
+    e.preventDefault()
+    onMove(e.key === "ArrowUp" ? "up" : "down")
+  }
+
+  const onDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!sortable || !e.dataTransfer.types.includes(DRAG_TYPE)) return
+    e.preventDefault()
+    const rect = e.currentTarget.getBoundingClientRect()
+    setDropPlace(e.clientY < rect.top + rect.height / 2 ? "before" : "after")
+  }
+
+  const onDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const id = e.dataTransfer.getData(DRAG_TYPE)
+    if (id && dropPlace) {
+      e.preventDefault()
+      onDropTodo(id, dropPlace)
+    }
+    setDropPlace(null)
+  }
+
+  return (
+    <div
+      draggable={sortable && !editing}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, todo.id)
+        e.dataTransfer.effectAllowed = "move"
+      }}
+      onDragOver={onDragOver}
+      onDragLeave={() => setDropPlace(null)}
+      onDrop={onDrop}
+      onKeyDown={onKeyDown}
+      className={`group p-4 rounded-lg border-2 transition-all duration-300 hover:shadow-md transform hover:-translate-y-1 animate-slide-in ${
+        isOverdue(todo)
+          ? "bg-red-50 border-red-300 shadow-red-100"
+          : todo.completed
+            ? "bg-gray-50 border-gray-200 opacity-75"
+            : "bg-white border-gray-200 hover:border-blue-300"
+      } ${dropPlace === "before" ? "border-t-blue-500" : dropPlace === "after" ? "border-b-blue-500" : ""}`}
+      style={{ animationDelay: `${index * 50}ms`, marginLeft: `${depth * 1.5}rem` }}
+    >
+      <div className="flex items-center gap-3">
+        {sortable && <GripVertical aria-hidden className="-ml-2 w-4 h-4 shrink-0 cursor-grab text-gray-300" />}
+        {progress ? (
+          <button
+            type="button"
+            onClick={onToggleCollapsed}
+            aria-label={collapsed ? "Expand subtasks" : "Collapse subtasks"}
+            className="-ml-2 text-gray-400 hover:text-gray-600"
+          >
+            {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        ) : (
+          depth > 0 && <span className="-ml-2 w-4" />
+        )}
+        <Checkbox checked={todo.completed} onCheckedChange={onToggle} className="transition-transform hover:scale-110" />
+
+        <div className="flex-1 min-w-0">
+          {editing ? (
+            <TodoEditor
+              todo={todo}
+              lists={lists}
+              tags={tags}
+              tagColors={tagColors}
+              onSave={onSaveEdit}
+              onCancel={onCancelEdit}
+            />
+          ) : (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <p
+                  className={`flex-1 transition-all ${
+                    todo.completed ? "line-through text-gray-500" : "text-gray-900"
+                  }`}
+                >
+                  <Highlight text={todo.text} ranges={match?.text} />
+                </p>
+                {isOverdue(todo) && (
+                  <Badge variant="destructive" className="text-xs animate-pulse">
+                    OVERDUE
+                  </Badge>
+                )}
+              </div>
+              {match && match.description.length > 0 && todo.description && (
+                <p className="text-xs text-gray-500 truncate">
+                  <Highlight {...snippet(todo.description, match.description)} />
+                </p>
+              )}
+              <div className="flex items-center gap-2 flex-wrap">
+                <PriorityBadge priority={todo.priority} className="text-xs" />
+                {!todo.completed && <BlockedBadge blockers={blockers} className="text-xs" />}
+                {todo.tags?.map((tag) => (
+                  <TagBadge key={tag} name={tag} color={tagColor(tag, tagColors)} />
+                ))}
+                {list && <ListBadge list={list} />}
+                <DeadlineBadge todo={todo} className="text-xs" />
+                <RepeatBadge todo={todo} className="text-xs" />
+                <TrackedTimeBadge todo={todo} onStop={onTimer} className="text-xs" />
+                <span className="text-xs text-gray-400">{todo.createdAt.toLocaleDateString()}</span>
+              </div>
+              {progress && (
+                <div className="flex items-center gap-2 pt-1">
+                  <Progress value={(progress.done / progress.total) * 100} className="h-1.5 flex-1" />
+                  <span className="text-xs text-gray-500">
+                    {progress.done}/{progress.total}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+          {!editing && (
+            <>
+              {sortable && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => move(e, "up")}
+                    title="Move up (Alt+↑)"
+                    aria-label="Move up"
+                    className="hover:bg-gray-100 transition-colors"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => move(e, "down")}
+                    title="Move down (Alt+↓)"
+                    aria-label="Move down"
+                    className="hover:bg-gray-100 transition-colors"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onTimer}
+                title={runningEntry(todo) ? "Stop timer" : "Start timer"}
+                className="hover:bg-green-100 hover:text-green-600 transition-colors"
+              >
+                {runningEntry(todo) ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onView}
+                className="hover:bg-purple-100 hover:text-purple-600 transition-colors"
+              >
+                <Eye className="w-4 h-4" />
+              </Button>
+              {todo.repeat && !todo.completed && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={onSkip}
+                  title="Skip this occurrence"
+                  className="hover:bg-indigo-100 hover:text-indigo-600 transition-colors"
+                >
+                  <SkipForward className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setAddingSubtask(true)}
+                title="Add subtask"
+                className="hover:bg-green-100 hover:text-green-600 transition-colors"
+              >
+                <ListPlus className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onEdit}
+                className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
+              >
+                <Edit3 className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={onDelete}
+                className="hover:bg-red-100 hover:text-red-600 transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {addingSubtask && (
+        <div className="mt-3 ml-7">
+          <Input
+            placeholder="Add a subtask and press Enter"
+            value={subtaskText}
+            onChange={(e) => setSubtaskText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addSubtask()
+              if (e.key === "Escape") setAddingSubtask(false)
+            }}
+            onBlur={() => subtaskText.trim() === "" && setAddingSubtask(false)}
+            className="h-8 text-sm"
+            autoFocus
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { RotateCcw, Trash2 } from "lucide-react"
+import type { Todo } from "@/lib/todo"
+import { purgeDate } from "@/lib/trash"
+
+const retentionOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "never", label: "Never" },
+]
+
+interface TrashViewProps {
+  todos: Todo[]
+  retentionDays: number | null
+  onRetentionChange: (days: number | null) => void
+  onRestore: (id: string) => void
+  onDeleteForever: (id: string) => void
+  onEmpty: () => void
+}
+
+export function TrashView({
+  todos,
+  retentionDays,
+  onRetentionChange,
+  onRestore,
+  onDeleteForever,
+  onEmpty,
+}: TrashViewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-600">Auto-delete after:</span>
+          <Select
+            value={retentionDays === null ? "never" : String(retentionDays)}
+            onValueChange={(value) => onRetentionChange(value === "never" ? null : Number(value))}
+          >
+            <SelectTrigger className="h-8 w-28 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {retentionOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button size="sm" variant="outline" disabled={todos.length === 0} className="text-red-600 hover:bg-red-50">
+              <Trash2 className="w-4 h-4 mr-1" />
+              Empty trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {todos.length} {todos.length === 1 ? "task" : "tasks"} will be permanently deleted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onEmpty} className="bg-red-500 hover:bg-red-600">
+                Empty trash
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {todos.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <div className="text-4xl mb-2">🗑️</div>
+            <p>Trash is empty</p>
+          </div>
+        ) : (
+          todos.map((todo) => {
+            const purgeAt = purgeDate(todo, retentionDays)
+            return (
+              <div
+                key={todo.id}
+                className="group p-4 rounded-lg border-2 bg-gray-50 border-gray-200 flex items-center gap-3"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="text-gray-500 line-through truncate">{todo.text}</p>
+                  <p className="text-xs text-gray-400">
+                    Deleted {todo.deletedAt?.toLocaleString()}
+                    {purgeAt && ` · removed permanently ${purgeAt.toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRestore(todo.id)}
+                    title="Restore"
+                    className="hover:bg-green-100 hover:text-green-600 transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDeleteForever(todo.id)}
+                    title="Delete permanently"
+                    className="hover:bg-red-100 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import * as React from "react"
+
+// The current time, refreshed every `intervalMs` so time-based state like overdue badges stays current
+export function useNow(intervalMs = 60 * 1000) {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(interval)
+  }, [intervalMs])
+
+  return now
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import * as React from "react"
+
+import type { Todo } from "@/lib/todo"
+import { formatDeadline } from "@/lib/todo"
+import {
+  dueReminders,
+  loadReminderState,
+  markDelivered,
+  nextReminderTime,
+  pruneReminderState,
+  saveReminderState,
+  snooze,
+  snoozeOptions,
+  type Reminder,
+} from "@/lib/reminders"
+import { toast } from "@/hooks/use-toast"
+import { ToastAction } from "@/components/ui/toast"
+
+export type ReminderPermission = NotificationPermission | "unsupported"
+
+// setTimeout overflows past ~24.8 days, so far-off reminders are re-checked at that interval
+const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+const bodyOf = ({ todo }: Reminder) =>
+  todo.deadline && todo.deadline.getTime() > Date.now() ? `Due ${formatDeadline(todo.deadline)}` : "Due now"
+
+/**
+ * Delivers reminders for upcoming deadlines while the app is open, as system notifications when
+ * allowed and as toasts otherwise. What was delivered or snoozed is stored on the device, so a
+ * reload neither repeats nor drops a reminder.
+ */
+export function useReminders(todos: Todo[], loaded: boolean, onOpen: (id: string) => void) {
+  // null until read on mount, so nothing is delivered as a toast before notifications are known to be allowed
+  const [permission, setPermission] = React.useState<ReminderPermission | null>(null)
+  const [check, setCheck] = React.useState(0)
+  const registrationRef = React.useRef<ServiceWorkerRegistration | null>(null)
+  const onOpenRef = React.useRef(onOpen)
+  onOpenRef.current = onOpen
+
+  const snoozeReminder = React.useCallback((key: string, minutes: number) => {
+    saveReminderState(snooze(loadReminderState(), key, minutes))
+    setCheck((n) => n + 1)
+  }, [])
+
+  React.useEffect(() => {
+    if (typeof Notification === "undefined") {
+      setPermission("unsupported")
+      return
+    }
+    setPermission(Notification.permission)
+
+    // Notification actions such as snooze are only available through a service worker
+    if (!("serviceWorker" in navigator)) return
+    navigator.serviceWorker
+      .register("/reminder-sw.js")
+      .then((registration) => (registrationRef.current = registration))
+      .catch(() => {})
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "reminder-snooze") snoozeReminder(event.data.key, event.data.minutes)
+      if (event.data?.type === "reminder-open") onOpenRef.current(event.data.todoId)
+    }
+    navigator.serviceWorker.addEventListener("message", onMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage)
+  }, [snoozeReminder])
+
+  // Timers are throttled in background tabs, so look again whenever the tab comes back
+  React.useEffect(() => {
+    const onVisible = () => document.visibilityState === "visible" && setCheck((n) => n + 1)
+    document.addEventListener("visibilitychange", onVisible)
+    return () => document.removeEventListener("visibilitychange", onVisible)
+  }, [])
+
+  React.useEffect(() => {
+    if (!loaded || permission === null) return
+
+    const deliver = (reminder: Reminder) => {
+      const title = `Reminder: ${reminder.todo.text}`
+      const showToast = () =>
+        toast({
+          title,
+          description: bodyOf(reminder),
+          action: (
+            <ToastAction altText="Snooze" onClick={() => snoozeReminder(reminder.key, snoozeOptions[0].minutes)}>
+              Snooze {snoozeOptions[0].label}
+            </ToastAction>
+          ),
+        })
+
+      const registration = registrationRef.current
+      if (permission === "granted" && registration) {
+        registration
+          .showNotification(title, {
+            body: bodyOf(reminder),
+            tag: reminder.key,
+            data: { key: reminder.key, todoId: reminder.todo.id },
+            actions: snoozeOptions.map(({ minutes, label }) => ({ action: `snooze-${minutes}`, title: `Snooze ${label}` })),
+          })
+          .catch(showToast)
+      } else if (permission === "granted") {
+        try {
+          const notification = new Notification(title, { body: bodyOf(reminder), tag: reminder.key })
+          notification.onclick = () => {
+            window.focus()
+            onOpenRef.current(reminder.todo.id)
+          }
+        } catch {
+          // Some mobile browsers only allow notifications through a service worker
+          showToast()
+        }
+      } else {
+        showToast()
+      }
+    }
+
+    // Read fresh each time so a reminder another tab already delivered is not shown twice
+    let state = pruneReminderState(loadReminderState(), todos)
+    const due = dueReminders(todos, state)
+    if (due.length > 0) {
+      state = markDelivered(state, due.map((reminder) => reminder.key))
+      due.forEach(deliver)
+    }
+    saveReminderState(state)
+
+    const next = nextReminderTime(todos, state)
+    if (next === null) return
+    const timeout = setTimeout(() => setCheck((n) => n + 1), Math.min(next - Date.now(), MAX_TIMEOUT_MS))
+    return () => clearTimeout(timeout)
+  }, [todos, loaded, permission, check, snoozeReminder])
+
+  const requestPermission = React.useCallback(async () => {
+    if (typeof Notification === "undefined") return
+    setPermission(await Notification.requestPermission())
+  }, [])
+
+  return { permission, requestPermission }
+}
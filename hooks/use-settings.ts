@@ -0,0 +1,31 @@
+"use client"
+
+import * as React from "react"
+
+import { SETTINGS_KEY, defaultSettings, loadSettings, parseSettings, saveSettings, type Settings } from "@/lib/settings"
+
+export function useSettings() {
+  const [settings, setSettings] = React.useState<Settings>(defaultSettings)
+
+  React.useEffect(() => {
+    setSettings(loadSettings())
+
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === SETTINGS_KEY && event.newValue) {
+        setSettings(parseSettings(JSON.parse(event.newValue)))
+      }
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const updateSettings = React.useCallback((changes: Partial<Settings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...changes }
+      saveSettings(next)
+      return next
+    })
+  }, [])
+
+  return { settings, updateSettings }
+}
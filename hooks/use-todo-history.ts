@@ -0,0 +1,68 @@
+"use client"
+
+import * as React from "react"
+
+import type { Todo } from "@/lib/todo"
+import { HISTORY_LIMIT, applyHistoryEntry, createHistoryEntry, type HistoryEntry } from "@/lib/history"
+
+interface HistoryStacks {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+export function useTodoHistory(
+  todos: Todo[],
+  setTodos: React.Dispatch<React.SetStateAction<Todo[]>>,
+  limit = HISTORY_LIMIT,
+) {
+  const [stacks, setStacks] = React.useState<HistoryStacks>({ past: [], future: [] })
+  // Callbacks handed to toasts outlive the render they were created in
+  const stacksRef = React.useRef(stacks)
+  React.useEffect(() => {
+    stacksRef.current = stacks
+  }, [stacks])
+
+  // Replaces the todo list with `next` and records the change so it can be undone
+  const commit = (label: string, next: Todo[]) => {
+    const entry = createHistoryEntry(label, todos, next)
+    setTodos(next)
+    if (!entry) return null
+    setStacks(({ past }) => ({ past: [...past, entry].slice(-limit), future: [] }))
+    return entry
+  }
+
+  const undo = React.useCallback(
+    (only?: HistoryEntry) => {
+      const { past, future } = stacksRef.current
+      const entry = past[past.length - 1]
+      if (!entry || (only && only !== entry)) return false
+
+      setTodos((current) => applyHistoryEntry(current, entry, "undo"))
+      const next = { past: past.slice(0, -1), future: [...future, entry] }
+      stacksRef.current = next
+      setStacks(next)
+      return true
+    },
+    [setTodos],
+  )
+
+  const redo = React.useCallback(() => {
+    const { past, future } = stacksRef.current
+    const entry = future[future.length - 1]
+    if (!entry) return false
+
+    setTodos((current) => applyHistoryEntry(current, entry, "redo"))
+    const next = { past: [...past, entry], future: future.slice(0, -1) }
+    stacksRef.current = next
+    setStacks(next)
+    return true
+  }, [setTodos])
+
+  return {
+    commit,
+    undo,
+    redo,
+    undoLabel: stacks.past[stacks.past.length - 1]?.label ?? null,
+    redoLabel: stacks.future[stacks.future.length - 1]?.label ?? null,
+  }
+}
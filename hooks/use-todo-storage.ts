@@ -0,0 +1,87 @@
+"use client"
+
+import * as React from "react"
+
+import type { Todo } from "@/lib/todo"
+import { createStorageAdapter, diffTodos, type StorageAdapter, type StorageBackend } from "@/lib/storage/adapter"
+import { addToQuarantine } from "@/lib/storage/schema"
+import { mergeTodoLists } from "@/lib/sync"
+import { toast } from "@/hooks/use-toast"
+
+export function useTodoStorage(backend?: StorageBackend) {
+  const [todos, setTodos] = React.useState<Todo[]>([])
+  const [loaded, setLoaded] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const adapterRef = React.useRef<StorageAdapter | null>(null)
+  // What storage currently holds, so only the difference is written back
+  const persistedRef = React.useRef<Todo[]>([])
+
+  React.useEffect(() => {
+    const adapter = createStorageAdapter(backend)
+    adapterRef.current = adapter
+    let cancelled = false
+
+    adapter
+      .load()
+      .then(({ todos: loadedTodos, quarantined, rekeyed = [] }) => {
+        if (cancelled) return
+        persistedRef.current = loadedTodos
+        setTodos(loadedTodos)
+        setLoaded(true)
+        if (rekeyed.length > 0) {
+          // Rewrite everything so the re-keyed duplicates replace the shared record in storage
+          adapter.save(loadedTodos).catch(() => {})
+          toast({
+            title: "Repaired duplicate task ids",
+            description: `${rekeyed.length} task(s) shared an id with another task and were given a new one.`,
+          })
+        }
+        if (quarantined.length > 0) {
+          addToQuarantine(quarantined)
+          toast({
+            variant: "destructive",
+            title: "Some saved tasks were skipped",
+            description: `${quarantined.length} task(s) failed validation and were moved to quarantine. First problem: ${quarantined[0].reason}`,
+          })
+        }
+      })
+      .catch((reason) => {
+        // Leave the stored data untouched so a newer app version can still read it
+        if (!cancelled) setError(reason instanceof Error ? reason.message : String(reason))
+      })
+
+    // Merge what another tab wrote into local state; anything local that wins is written back
+    const unsubscribe = adapter.subscribe((remoteTodos) => {
+      const base = persistedRef.current
+      persistedRef.current = remoteTodos
+      setTodos((localTodos) => mergeTodoLists(base, localTodos, remoteTodos))
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      adapter.close()
+      adapterRef.current = null
+    }
+  }, [backend])
+
+  // Write only the todos that changed since the last save
+  React.useEffect(() => {
+    const adapter = adapterRef.current
+    if (!loaded || !adapter) return
+
+    const { put, deleted } = diffTodos(persistedRef.current, todos)
+    persistedRef.current = todos
+    Promise.all([...put.map((todo) => adapter.put(todo)), ...deleted.map((id) => adapter.delete(id))]).catch(
+      (reason) => {
+        toast({
+          variant: "destructive",
+          title: "Could not save your changes",
+          description: reason instanceof Error ? reason.message : String(reason),
+        })
+      },
+    )
+  }, [todos, loaded])
+
+  return { todos, setTodos, loaded, error }
+}
@@ -0,0 +1,232 @@
+import { z } from "zod"
+import { DependencyCycleError, checkBlockers } from "@/lib/dependencies"
+import { createId } from "@/lib/id"
+import { parseSettings, type Settings } from "@/lib/settings"
+import {
+  SCHEMA_VERSION,
+  migratePayload,
+  toStoredTodo,
+  validateTodos,
+  type QuarantinedRecord,
+} from "@/lib/storage/schema"
+import { mergeTodo } from "@/lib/sync"
+import type { Todo } from "@/lib/todo"
+
+// Marks a JSON file as one of our backups rather than any other JSON
+export const BACKUP_FORMAT = "todo-app-backup"
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BackupError"
+  }
+}
+
+export interface Backup {
+  exportedAt?: Date
+  todos: Todo[]
+  settings: Settings
+  // Records in the file that failed validation, and the quarantine the exporting app held
+  skipped: QuarantinedRecord[]
+  quarantine: QuarantinedRecord[]
+}
+
+// Todos in the stored schema, so a file is migrated on import exactly like old browser storage
+export const serializeBackup = (todos: Todo[], settings: Settings, quarantine: QuarantinedRecord[], now = new Date()) =>
+  JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: SCHEMA_VERSION,
+      exportedAt: now.toISOString(),
+      data: todos.map(toStoredTodo),
+      settings,
+      quarantine,
+    },
+    null,
+    2,
+  )
+
+const quarantinedRecordSchema = z
+  .object({ record: z.unknown(), reason: z.string(), quarantinedAt: z.string() })
+  .refine((entry): entry is QuarantinedRecord => "record" in entry)
+
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(0),
+  exportedAt: z.coerce.date().optional().catch(undefined),
+  data: z.array(z.unknown()),
+  settings: z.unknown(),
+  quarantine: z.array(z.unknown()).catch([]),
+})
+
+export const parseBackup = (raw: string): Backup => {
+  let json: unknown
+  try {
+    json = JSON.parse(raw)
+  } catch {
+    throw new BackupError("The file is not valid JSON")
+  }
+  const envelope = z.object({ format: z.literal(BACKUP_FORMAT) }).safeParse(json)
+  if (!envelope.success) throw new BackupError("The file is not a todo backup")
+  const parsed = backupFileSchema.safeParse(json)
+  if (!parsed.success) throw new BackupError("The backup is damaged: it has no valid version or list of todos")
+  const file = parsed.data
+
+  if (file.version > SCHEMA_VERSION) {
+    throw new BackupError(
+      `The backup was made by a newer version of the app (schema ${file.version}); update this one to import it`,
+    )
+  }
+  let data: unknown
+  try {
+    data = migratePayload({ version: file.version, data: file.data }).data
+  } catch (error) {
+    throw new BackupError(`The backup could not be upgraded: ${error instanceof Error ? error.message : error}`)
+  }
+  if (!Array.isArray(data)) throw new BackupError("The backup holds no list of todos")
+
+  const { todos, quarantined } = validateTodos(data)
+  return {
+    exportedAt: file.exportedAt,
+    todos,
+    settings: parseSettings(file.settings),
+    skipped: quarantined,
+    // Entries that are not quarantined records are dropped, as there is nothing to recover from them
+    quarantine: file.quarantine.flatMap((entry) => {
+      const record = quarantinedRecordSchema.safeParse(entry)
+      return record.success ? [record.data] : []
+    }),
+  }
+}
+
+export const importStrategies = ["replace", "merge", "append"] as const
+
+export type ImportStrategy = (typeof importStrategies)[number]
+
+export interface ImportConflict {
+  id: string
+  text: string
+  reason: string
+}
+
+export interface ImportPlan {
+  todos: Todo[]
+  settings: Settings
+  added: number
+  updated: number
+  unchanged: number
+  removed: number
+  conflicts: ImportConflict[]
+}
+
+const same = (a: Todo, b: Todo) => JSON.stringify(a) === JSON.stringify(b)
+
+const byId = <T extends { id: string }>(current: T[], imported: T[]) => {
+  const ids = new Set(current.map((item) => item.id))
+  return [...current, ...imported.filter((item) => !ids.has(item.id))]
+}
+
+// Imported lists, views and colours are added, but what this app already has wins
+const mergeSettings = (current: Settings, imported: Settings): Settings => ({
+  ...current,
+  lists: byId(current.lists, imported.lists),
+  views: byId(current.views, imported.views),
+  tagColors: { ...imported.tagColors, ...current.tagColors },
+  sortOrders: { ...imported.sortOrders, ...current.sortOrders },
+  wipLimits: { ...imported.wipLimits, ...current.wipLimits },
+})
+
+// Fresh ids for every imported todo, with subtask and blocker links pointing at the copies. A timer
+// still running in the backup is dropped from its copy, as the original it was copied from runs it.
+const withNewIds = (todos: Todo[]): Todo[] => {
+  const ids = new Map(todos.map((todo) => [todo.id, createId()]))
+  return todos.map((todo) => {
+    const timeEntries = todo.timeEntries?.filter((entry) => entry.end)
+    return {
+      ...todo,
+      id: ids.get(todo.id)!,
+      parentId: todo.parentId && ids.get(todo.parentId),
+      blockedBy: todo.blockedBy?.some((id) => ids.has(id))
+        ? todo.blockedBy.flatMap((id) => ids.get(id) ?? [])
+        : undefined,
+      timeEntries: timeEntries?.length ? timeEntries : undefined,
+    }
+  })
+}
+
+// Imported blockers that close a cycle with the todos already here are dropped and reported
+const breakCycles = (todos: Todo[], importedIds: Set<string>, conflicts: ImportConflict[]) => {
+  let result = todos
+  for (const todo of todos) {
+    if (!importedIds.has(todo.id) || !todo.blockedBy?.length) continue
+    try {
+      checkBlockers(result, todo.id, todo.blockedBy)
+    } catch (error) {
+      if (!(error instanceof DependencyCycleError)) throw error
+      result = result.map((t) => (t.id === todo.id ? { ...t, blockedBy: undefined } : t))
+      conflicts.push({ id: todo.id, text: todo.text, reason: `Its blockers were dropped: ${error.message}` })
+    }
+  }
+  return result
+}
+
+/**
+ * What importing a backup would do, without doing it. "replace" swaps in the backup's todos and
+ * settings; "merge" matches todos by id, keeping the latest edit of each field like a sync
+ * between tabs does; "append" adds every todo in the backup as a new copy.
+ */
+export const planImport = (todos: Todo[], settings: Settings, backup: Backup, strategy: ImportStrategy): ImportPlan => {
+  const current = new Map(todos.map((todo) => [todo.id, todo]))
+  const imported = new Map(backup.todos.map((todo) => [todo.id, todo]))
+  const overlap = backup.todos.filter((todo) => current.has(todo.id))
+  const conflicts: ImportConflict[] = []
+
+  if (strategy === "replace") {
+    return {
+      todos: backup.todos,
+      settings: backup.settings,
+      added: backup.todos.length - overlap.length,
+      updated: overlap.filter((todo) => !same(todo, current.get(todo.id)!)).length,
+      unchanged: overlap.filter((todo) => same(todo, current.get(todo.id)!)).length,
+      removed: todos.filter((todo) => !imported.has(todo.id)).length,
+      conflicts,
+    }
+  }
+
+  if (strategy === "append") {
+    const copies = withNewIds(backup.todos)
+    const next = breakCycles([...copies, ...todos], new Set(copies.map((todo) => todo.id)), conflicts)
+    return {
+      todos: next,
+      settings: mergeSettings(settings, backup.settings),
+      added: copies.length,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      conflicts,
+    }
+  }
+
+  let updated = 0
+  const merged = todos.map((todo) => {
+    const incoming = imported.get(todo.id)
+    if (!incoming || same(todo, incoming)) return todo
+    const result = mergeTodo(todo, incoming)
+    if (result !== todo) updated++
+    if (result !== todo && result !== incoming) {
+      const reason = "Edited on both sides; the latest edit of each field was kept"
+      conflicts.push({ id: todo.id, text: todo.text, reason })
+    }
+    return result
+  })
+  const added = backup.todos.filter((todo) => !current.has(todo.id))
+  return {
+    todos: breakCycles([...added, ...merged], new Set(imported.keys()), conflicts),
+    settings: mergeSettings(settings, backup.settings),
+    added: added.length,
+    updated,
+    unchanged: overlap.length - updated,
+    removed: 0,
+    conflicts,
+  }
+}
@@ -0,0 +1,82 @@
+import { priorities, updateTodo, type Priority, type Todo, type TodoChanges } from "@/lib/todo"
+import { normalizeTags } from "@/lib/tags"
+import { toggleCompletion } from "@/lib/recurrence"
+
+export const boardGroupings = ["status", "priority", "tag"] as const
+
+export type BoardGrouping = (typeof boardGroupings)[number]
+
+export const statuses = ["todo", "in-progress", "done"] as const
+
+export type Status = (typeof statuses)[number]
+
+export const statusLabels: Record<Status, string> = {
+  todo: "To do",
+  "in-progress": "In progress",
+  done: "Done",
+}
+
+// Column key of todos without tags when grouping by tag; tag names never contain spaces
+export const UNTAGGED = "no tags"
+
+export interface BoardColumn {
+  key: string
+  todos: Todo[]
+}
+
+export const statusOf = (todo: Todo): Status => (todo.completed ? "done" : todo.inProgress ? "in-progress" : "todo")
+
+/**
+ * Splits todos into the board's columns, keeping their order within each. Grouped by tag, a
+ * todo appears once for every tag it has, and every tag in `tagNames` gets a column.
+ */
+export const boardColumns = (todos: Todo[], grouping: BoardGrouping, tagNames: string[]): BoardColumn[] => {
+  switch (grouping) {
+    case "status":
+      return statuses.map((status) => ({ key: status, todos: todos.filter((todo) => statusOf(todo) === status) }))
+    case "priority":
+      return [...priorities]
+        .reverse()
+        .map((priority) => ({ key: priority, todos: todos.filter((todo) => todo.priority === priority) }))
+    case "tag":
+      return [
+        ...tagNames.map((tag) => ({ key: tag, todos: todos.filter((todo) => todo.tags?.includes(tag)) })),
+        { key: UNTAGGED, todos: todos.filter((todo) => !todo.tags?.length) },
+      ]
+  }
+}
+
+/**
+ * Changes a todo so it belongs in another column: its status, its priority, or one of its tags
+ * swapped for another. Completing it this way goes through the usual recurrence handling.
+ */
+export const moveToColumn = (
+  todos: Todo[],
+  id: string,
+  grouping: BoardGrouping,
+  from: string,
+  to: string,
+  now = new Date(),
+): Todo[] => {
+  const todo = todos.find((t) => t.id === id)
+  if (!todo || from === to) return todos
+  const update = (changes: TodoChanges, current = todos) =>
+    current.map((t) => (t.id === id ? updateTodo(t, changes, now.getTime()) : t))
+
+  switch (grouping) {
+    case "status": {
+      if (to === "done") return todo.completed ? todos : toggleCompletion(todos, id, now)
+      const reopened = todo.completed ? toggleCompletion(todos, id, now) : todos
+      return update({ inProgress: to === "in-progress" || undefined }, reopened)
+    }
+    case "priority":
+      return update({ priority: to as Priority })
+    case "tag": {
+      const tags = (todo.tags ?? []).filter((tag) => tag !== from)
+      return update({ tags: normalizeTags(to === UNTAGGED ? tags : [...tags, to]) })
+    }
+  }
+}
+
+// Key of a column's WIP limit in the settings
+export const wipLimitKey = (grouping: BoardGrouping, column: string) => `${grouping}:${column}`
@@ -0,0 +1,57 @@
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+
+import type { Todo } from "@/lib/todo"
+
+export const calendarModes = ["month", "week"] as const
+
+export type CalendarMode = (typeof calendarModes)[number]
+
+// Weeks start on Monday, as in the quick-add parser's "next week"
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+// Local calendar date, used to bucket todos by day
+export const dayKey = (date: Date) => format(date, "yyyy-MM-dd")
+
+// The days shown for the month or week around `anchor`; a month is padded to whole weeks
+export const calendarDays = (anchor: Date, mode: CalendarMode) => {
+  const start = mode === "month" ? startOfMonth(anchor) : anchor
+  const end = mode === "month" ? endOfMonth(anchor) : anchor
+  return eachDayOfInterval({ start: startOfWeek(start, WEEK_OPTIONS), end: endOfWeek(end, WEEK_OPTIONS) })
+}
+
+export const shiftCalendar = (anchor: Date, mode: CalendarMode, amount: number) =>
+  mode === "month" ? addMonths(anchor, amount) : addWeeks(anchor, amount)
+
+export const calendarTitle = (anchor: Date, mode: CalendarMode) => {
+  if (mode === "month") return format(anchor, "MMMM yyyy")
+  const [first, last] = [startOfWeek(anchor, WEEK_OPTIONS), endOfWeek(anchor, WEEK_OPTIONS)]
+  return `${format(first, "MMM d")} – ${format(last, first.getMonth() === last.getMonth() ? "d, yyyy" : "MMM d, yyyy")}`
+}
+
+// Todos with a deadline by day, earliest first within each
+export const todosByDay = (todos: Todo[]) => {
+  const days = new Map<string, Todo[]>()
+  for (const todo of todos) {
+    if (!todo.deadline) continue
+    const key = dayKey(todo.deadline)
+    days.set(key, [...(days.get(key) ?? []), todo])
+  }
+  days.forEach((list) => list.sort((a, b) => a.deadline!.getTime() - b.deadline!.getTime()))
+  return days
+}
+
+// The deadline moved to another day, keeping its time of day
+export const moveToDay = (deadline: Date, day: Date) => {
+  const moved = new Date(day)
+  moved.setHours(deadline.getHours(), deadline.getMinutes(), deadline.getSeconds(), deadline.getMilliseconds())
+  return moved
+}
@@ -0,0 +1,86 @@
+import { updateTodo, type Todo } from "@/lib/todo"
+import { isTrashed } from "@/lib/trash"
+
+const quote = (todo: Todo) => `“${todo.text}”`
+
+// Thrown for a "blocked by" link that would leave a todo waiting, directly or not, on itself
+export class DependencyCycleError extends Error {
+  constructor(
+    message: string,
+    // Ids from the would-be blocker along the todos it waits on, back to the todo being blocked
+    public readonly path: string[],
+  ) {
+    super(message)
+    this.name = "DependencyCycleError"
+  }
+}
+
+// Thrown when completing a todo whose blockers are not all done, unless that is forced
+export class BlockedError extends Error {
+  constructor(public readonly blockers: Todo[]) {
+    super(`Waiting on ${blockers.map(quote).join(", ")}`)
+    this.name = "BlockedError"
+  }
+}
+
+// The unfinished todos this one waits on; completed, trashed or deleted blockers no longer hold it up
+export const blockersOf = (todo: Todo, todos: Todo[]) => {
+  const byId = new Map(todos.map((t) => [t.id, t]))
+  return (todo.blockedBy ?? []).flatMap((id) => {
+    const blocker = byId.get(id)
+    return blocker && !blocker.completed && !isTrashed(blocker) ? [blocker] : []
+  })
+}
+
+// The todos outside the trash that wait on this one
+export const blockedItems = (todo: Todo, todos: Todo[]) =>
+  todos.filter((t) => !isTrashed(t) && t.blockedBy?.includes(todo.id))
+
+// Ids from `from` to `to` following "blocked by" links, or null when `from` does not wait on `to`
+const waitPath = (todos: Todo[], from: string, to: string): string[] | null => {
+  const byId = new Map(todos.map((t) => [t.id, t]))
+  const previous = new Map<string, string>([[from, from]])
+  const queue = [from]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    if (id === to) {
+      const path = [id]
+      while (path[0] !== from) path.unshift(previous.get(path[0])!)
+      return path
+    }
+    for (const next of byId.get(id)?.blockedBy ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, id)
+        queue.push(next)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Throws a DependencyCycleError if the todo with this id could not be blocked by all of
+ * `blockedBy`. Trashed todos count too, as they may be restored.
+ */
+export const checkBlockers = (todos: Todo[], id: string, blockedBy: string[]) => {
+  const byId = new Map(todos.map((t) => [t.id, t]))
+  const todo = byId.get(id)
+  if (!todo) return
+  for (const blockerId of blockedBy) {
+    const path = blockerId === id ? [id] : waitPath(todos, blockerId, id)
+    if (!path) continue
+    const [blocker, ...through] = path.map((step) => byId.get(step)!)
+    const message =
+      path.length === 1
+        ? `${quote(todo)} can't be blocked by itself`
+        : `${quote(todo)} can't be blocked by ${quote(blocker)}, which already waits on it` +
+          (through.length > 1 ? ` through ${through.slice(0, -1).map(quote).join(", ")}` : "")
+    throw new DependencyCycleError(message, path)
+  }
+}
+
+export const setBlockers = (todos: Todo[], id: string, blockedBy: string[], now = Date.now()): Todo[] => {
+  checkBlockers(todos, id, blockedBy)
+  const changes = { blockedBy: blockedBy.length > 0 ? blockedBy : undefined }
+  return todos.map((t) => (t.id === id ? updateTodo(t, changes, now) : t))
+}
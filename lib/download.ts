@@ -0,0 +1,9 @@
+// Saves text as a file through the browser's download prompt
+export const downloadFile = (name: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = name
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,68 @@
+import { updateTodo, type Todo, type TodoChanges, type TodoField } from "@/lib/todo"
+
+export const HISTORY_LIMIT = 100
+
+interface RecordChange {
+  id: string
+  before: Todo | null
+  after: Todo | null
+  // Position in the list before the change, so undoing a delete puts the todo back where it was
+  index: number
+}
+
+// One undoable mutation, stored as the records it touched rather than a full snapshot so
+// undoing never overwrites todos that changed in another tab meanwhile
+export interface HistoryEntry {
+  label: string
+  changes: RecordChange[]
+}
+
+export type HistoryDirection = "undo" | "redo"
+
+export const createHistoryEntry = (label: string, previous: Todo[], next: Todo[]): HistoryEntry | null => {
+  const nextById = new Map(next.map((todo) => [todo.id, todo]))
+  const previousIds = new Set(previous.map((todo) => todo.id))
+  const changes: RecordChange[] = []
+
+  previous.forEach((todo, index) => {
+    const after = nextById.get(todo.id) ?? null
+    if (after !== todo) changes.push({ id: todo.id, before: todo, after, index })
+  })
+  next.forEach((todo, index) => {
+    if (!previousIds.has(todo.id)) changes.push({ id: todo.id, before: null, after: todo, index })
+  })
+
+  return changes.length > 0 ? { label, changes } : null
+}
+
+// Moves `current` to the field values of `target`, stamping the fields that change so the
+// restored values win over older edits when merged with other tabs
+const restore = (current: Todo, target: Todo): Todo => {
+  const changes: Record<string, unknown> = {}
+  const fields = new Set([...Object.keys(current), ...Object.keys(target)])
+  for (const field of fields) {
+    if (field === "id" || field === "createdAt" || field === "fieldUpdatedAt") continue
+    const key = field as TodoField
+    if (JSON.stringify(current[key]) !== JSON.stringify(target[key])) changes[key] = target[key]
+  }
+  return Object.keys(changes).length > 0 ? updateTodo(current, changes as TodoChanges) : current
+}
+
+export const applyHistoryEntry = (todos: Todo[], entry: HistoryEntry, direction: HistoryDirection): Todo[] => {
+  let result = [...todos]
+  const changes = direction === "undo" ? [...entry.changes].reverse() : entry.changes
+
+  for (const { id, before, after, index } of changes) {
+    const target = direction === "undo" ? before : after
+    const position = result.findIndex((todo) => todo.id === id)
+
+    if (!target) {
+      if (position !== -1) result = result.filter((todo) => todo.id !== id)
+    } else if (position !== -1) {
+      result[position] = restore(result[position], target)
+    } else {
+      result.splice(Math.min(index, result.length), 0, target)
+    }
+  }
+  return result
+}
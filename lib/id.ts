@@ -0,0 +1,45 @@
+// Crockford base32, as used by ULID
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ"
+const TIME_LENGTH = 10
+const RANDOM_LENGTH = 16
+
+let lastTime = -1
+let lastRandom: number[] = []
+
+const encodeTime = (time: number) => {
+  let encoded = ""
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    encoded = ENCODING[time % 32] + encoded
+    time = Math.floor(time / 32)
+  }
+  return encoded
+}
+
+const randomDigits = () => Array.from(crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH)), (byte) => byte % 32)
+
+// Adds one to the random part so ids made in the same millisecond still sort in creation order
+const increment = (digits: number[]) => {
+  const next = [...digits]
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i]++
+      return next
+    }
+    next[i] = 0
+  }
+  throw new Error("Ran out of ids for this millisecond")
+}
+
+/**
+ * Returns a 26 character ULID: a millisecond timestamp followed by 80 random bits, so ids
+ * sort by creation time and never collide even when many are created at once.
+ */
+export const createId = (now = Date.now()) => {
+  if (now <= lastTime) {
+    lastRandom = increment(lastRandom)
+  } else {
+    lastTime = now
+    lastRandom = randomDigits()
+  }
+  return encodeTime(lastTime) + lastRandom.map((digit) => ENCODING[digit]).join("")
+}
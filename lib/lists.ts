@@ -0,0 +1,49 @@
+import { z } from "zod"
+
+import type { Todo } from "@/lib/todo"
+
+export const listColors = ["blue", "purple", "green", "yellow", "red", "pink", "gray"] as const
+export const listIcons = ["folder", "briefcase", "user", "home", "star", "book", "heart", "cart"] as const
+
+export type ListColor = (typeof listColors)[number]
+export type ListIcon = (typeof listIcons)[number]
+
+export interface TodoList {
+  id: string
+  name: string
+  color: ListColor
+  icon: ListIcon
+}
+
+export const todoListSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  color: z.enum(listColors),
+  icon: z.enum(listIcons),
+})
+
+export const defaultLists: TodoList[] = [
+  { id: "work", name: "Work", color: "blue", icon: "briefcase" },
+  { id: "personal", name: "Personal", color: "green", icon: "user" },
+]
+
+// Sidebar selections besides the user's own lists; todos without a listId live in the inbox
+export const ALL_LISTS = "all"
+export const INBOX = "inbox"
+
+export const listColorClasses: Record<ListColor, { dot: string; badge: string }> = {
+  blue: { dot: "bg-blue-500", badge: "bg-blue-100 text-blue-800 border-blue-200" },
+  purple: { dot: "bg-purple-500", badge: "bg-purple-100 text-purple-800 border-purple-200" },
+  green: { dot: "bg-green-500", badge: "bg-green-100 text-green-800 border-green-200" },
+  yellow: { dot: "bg-yellow-500", badge: "bg-yellow-100 text-yellow-800 border-yellow-200" },
+  red: { dot: "bg-red-500", badge: "bg-red-100 text-red-800 border-red-200" },
+  pink: { dot: "bg-pink-500", badge: "bg-pink-100 text-pink-800 border-pink-200" },
+  gray: { dot: "bg-gray-500", badge: "bg-gray-100 text-gray-800 border-gray-200" },
+}
+
+// The list a todo shows under; one pointing at a list that no longer exists falls back to the inbox
+export const listOf = (todo: Todo, lists: TodoList[]) =>
+  todo.listId && lists.some((list) => list.id === todo.listId) ? todo.listId : INBOX
+
+export const isInList = (todo: Todo, selection: string, lists: TodoList[]) =>
+  selection === ALL_LISTS || listOf(todo, lists) === selection
@@ -0,0 +1,341 @@
+import { addDays, addHours, addMonths, addWeeks, endOfDay, startOfDay } from "date-fns"
+
+import { priorities, isOverdue, type Todo } from "@/lib/todo"
+import { INBOX, listOf, type TodoList } from "@/lib/lists"
+import { normalizeTag } from "@/lib/tags"
+import { foldText, searchTerms } from "@/lib/search"
+
+/**
+ * A small filter language, e.g. `priority:high due:<7d -completed created:>2026-01-01 text:"invoice"`.
+ *
+ * Terms are separated by spaces and must all match; a leading "-" negates one. Plain words are
+ * searched for in the title and description like the search box does, `#name` matches a tag and
+ * the words in `flags` are shorthands for `is:<flag>`.
+ */
+
+export class QueryError extends Error {
+  constructor(
+    message: string,
+    // [start, end) of the offending text in the query
+    public readonly start: number,
+    public readonly end: number,
+  ) {
+    super(message)
+    this.name = "QueryError"
+  }
+}
+
+export interface QueryContext {
+  lists: TodoList[]
+}
+
+export interface ParsedQuery {
+  // Plain words and quoted phrases, matched like search terms so they can be highlighted
+  terms: string[]
+  test: (todo: Todo, now?: Date) => boolean
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+}
+
+type Predicate = (todo: Todo, now: Date) => boolean
+
+const flags: Record<string, Predicate> = {
+  completed: (todo) => todo.completed,
+  active: (todo) => !todo.completed,
+  "in-progress": (todo) => !todo.completed && Boolean(todo.inProgress),
+  overdue: (todo, now) => isOverdue(todo, now),
+  recurring: (todo) => Boolean(todo.repeat),
+  subtask: (todo) => Boolean(todo.parentId),
+}
+
+const has: Record<string, Predicate> = {
+  deadline: (todo) => Boolean(todo.deadline),
+  description: (todo) => Boolean(todo.description),
+  tags: (todo) => Boolean(todo.tags?.length),
+  reminders: (todo) => Boolean(todo.reminders?.length),
+  repeat: (todo) => Boolean(todo.repeat),
+}
+
+export const queryFields = {
+  priority: "low, medium or high; supports < and >",
+  due: "deadline: today, tomorrow, 7d, -2w, 2026-01-31 or none; supports < and >",
+  created: "creation date, like due:",
+  text: "words in the title",
+  desc: "words in the description",
+  tag: "a tag name",
+  list: "a list name, or inbox",
+  is: Object.keys(flags).join(", "),
+  has: Object.keys(has).join(", "),
+} as const
+
+type Field = keyof typeof queryFields
+
+const operators = ["<=", ">=", "<", ">", "="] as const
+type Operator = (typeof operators)[number]
+
+// Splits on spaces outside double quotes
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let quoted = false
+    while (i < input.length && (quoted || !/\s/.test(input[i]))) {
+      if (input[i] === '"') quoted = !quoted
+      i++
+    }
+    if (quoted) throw new QueryError("Missing closing quote", start, i)
+    tokens.push({ text: input.slice(start, i), start, end: i })
+  }
+  return tokens
+}
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, "$1")
+
+const splitOperator = (value: string): [Operator, string] => {
+  const operator = operators.find((op) => value.startsWith(op)) ?? "="
+  return [operator, value.startsWith(operator) ? value.slice(operator.length) : value]
+}
+
+// Whether a difference between two values satisfies the operator
+const compare = (difference: number, operator: Operator) => {
+  switch (operator) {
+    case "=":
+      return difference === 0
+    case "<":
+      return difference < 0
+    case "<=":
+      return difference <= 0
+    case ">":
+      return difference > 0
+    case ">=":
+      return difference >= 0
+  }
+}
+
+// A calendar day, or an exact moment for relative values like 3h
+type DateValue = { day: true; start: Date; end: Date } | { day: false; at: Date }
+
+const parseDateValue = (value: string, now: Date): DateValue | null => {
+  const day = (date: Date): DateValue => ({ day: true, start: startOfDay(date), end: endOfDay(date) })
+  const word = value.toLowerCase()
+  if (word === "today") return day(now)
+  if (word === "tomorrow") return day(addDays(now, 1))
+  if (word === "yesterday") return day(addDays(now, -1))
+
+  const relative = /^(-?\d+)([hdwm])$/.exec(word)
+  if (relative) {
+    const amount = Number(relative[1])
+    const add = { h: addHours, d: addDays, w: addWeeks, m: addMonths }[relative[2] as "h" | "d" | "w" | "m"]
+    return { day: false, at: add(now, amount) }
+  }
+
+  const absolute = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word)
+  if (absolute) {
+    const date = new Date(Number(absolute[1]), Number(absolute[2]) - 1, Number(absolute[3]))
+    return isNaN(date.getTime()) ? null : day(date)
+  }
+  return null
+}
+
+const compareDate = (date: Date | undefined, operator: Operator, value: DateValue) => {
+  if (!date) return false
+  const time = date.getTime()
+  if (!value.day) {
+    const at = value.at.getTime()
+    if (operator === "=") return startOfDay(date).getTime() === startOfDay(value.at).getTime()
+    return operator.startsWith("<") ? time <= at : time >= at
+  }
+  const start = value.start.getTime()
+  const end = value.end.getTime()
+  switch (operator) {
+    case "=":
+      return time >= start && time <= end
+    case "<":
+      return time < start
+    case "<=":
+      return time <= end
+    case ">":
+      return time > end
+    case ">=":
+      return time >= start
+  }
+}
+
+const fieldNames = Object.keys(queryFields) as Field[]
+
+const examples: Record<Field, string> = {
+  priority: "high",
+  due: "<7d",
+  created: ">2026-01-01",
+  text: '"invoice"',
+  desc: "budget",
+  tag: "work",
+  list: "inbox",
+  is: "overdue",
+  has: "deadline",
+}
+
+const parseField = (field: Field, raw: string, token: Token, context: QueryContext): Predicate => {
+  const fail = (message: string): never => {
+    throw new QueryError(message, token.start, token.end)
+  }
+  const value = unquote(raw)
+  if (value === "") fail(`Give ${field}: a value, e.g. ${field}:${examples[field]}`)
+
+  switch (field) {
+    case "priority": {
+      const [operator, name] = splitOperator(value.toLowerCase())
+      const rank = priorities.indexOf(name as Todo["priority"])
+      if (rank === -1) fail(`Unknown priority “${name}”; use low, medium or high`)
+      return (todo) => compare(priorities.indexOf(todo.priority) - rank, operator)
+    }
+
+    case "due":
+    case "created": {
+      const date = (todo: Todo) => (field === "due" ? todo.deadline : todo.createdAt)
+      if (value.toLowerCase() === "none") return (todo) => !date(todo)
+      const [operator, text] = splitOperator(value)
+      if (!parseDateValue(text, new Date())) {
+        fail(`Can't read the date “${text}”; try today, tomorrow, 7d, -2w or 2026-01-31`)
+      }
+      return (todo, now) => compareDate(date(todo), operator, parseDateValue(text, now)!)
+    }
+
+    case "text":
+    case "desc": {
+      const needle = foldText(value)
+      return (todo) => foldText((field === "text" ? todo.text : todo.description) ?? "").includes(needle)
+    }
+
+    case "tag": {
+      const tag = normalizeTag(value)
+      return (todo) => Boolean(todo.tags?.includes(tag))
+    }
+
+    case "list": {
+      if (value.toLowerCase() === INBOX) return (todo) => listOf(todo, context.lists) === INBOX
+      const list = context.lists.find((l) => l.id === value || foldText(l.name) === foldText(value))
+      if (!list) fail(`No list called “${value}”`)
+      return (todo) => todo.listId === list!.id
+    }
+
+    case "is":
+    case "has": {
+      const options = field === "is" ? flags : has
+      const predicate = options[value.toLowerCase()]
+      if (!predicate) fail(`Unknown value “${value}” for ${field}:; use ${Object.keys(options).join(", ")}`)
+      return predicate
+    }
+  }
+}
+
+export const parseQuery = (input: string, context: QueryContext): ParsedQuery => {
+  const terms: string[] = []
+  const predicates: Predicate[] = []
+
+  for (const token of tokenize(input)) {
+    const negated = token.text.startsWith("-") && token.text.length > 1
+    const text = negated ? token.text.slice(1) : token.text
+    let predicate: Predicate | undefined
+
+    const field = /^([a-z]+):(.*)$/i.exec(text)
+    if (field) {
+      const name = field[1].toLowerCase() as Field
+      if (!fieldNames.includes(name)) {
+        throw new QueryError(`Unknown field “${field[1]}:”; use ${fieldNames.map((f) => `${f}:`).join(" ")}`, token.start, token.end)
+      }
+      predicate = parseField(name, field[2], token, context)
+    } else if (text.startsWith("#") && text.length > 1) {
+      predicate = parseField("tag", text.slice(1), token, context)
+    } else if (flags[text.toLowerCase()]) {
+      predicate = flags[text.toLowerCase()]
+    } else if (negated) {
+      const needle = foldText(unquote(text))
+      predicate = (todo) => foldText(`${todo.text} ${todo.description ?? ""}`).includes(needle)
+    } else {
+      // Plain words are left to the search, which also highlights them
+      terms.push(...(text.startsWith('"') ? [foldText(unquote(text))] : searchTerms(text)))
+      continue
+    }
+
+    predicates.push(negated ? (todo, now) => !predicate!(todo, now) : predicate)
+  }
+
+  return { terms, test: (todo, now = new Date()) => predicates.every((predicate) => predicate(todo, now)) }
+}
+
+// Like zod's safeParse: the parsed query, or the error explaining why it could not be read
+export const safeParseQuery = (input: string, context: QueryContext) => {
+  try {
+    return { success: true as const, query: parseQuery(input, context) }
+  } catch (error) {
+    if (error instanceof QueryError) return { success: false as const, error }
+    throw error
+  }
+}
+
+export interface QuerySuggestion {
+  // Replaces the term the cursor is in
+  value: string
+  description: string
+}
+
+/**
+ * Completions for the term ending at `cursor`: field names while typing one, then the values
+ * that field accepts.
+ */
+export const suggestQuery = (
+  input: string,
+  cursor: number,
+  context: QueryContext & { tags: string[] },
+): { start: number; end: number; suggestions: QuerySuggestion[] } => {
+  const start = input.lastIndexOf(" ", cursor - 1) + 1
+  const term = input.slice(start, cursor)
+  const negation = term.startsWith("-") ? "-" : ""
+  const text = term.slice(negation.length).toLowerCase()
+  const result = (suggestions: QuerySuggestion[]) => ({ start, end: cursor, suggestions: suggestions.slice(0, 8) })
+
+  const field = /^([a-z]+):(.*)$/.exec(text)
+  if (!field) {
+    if (text.startsWith("#")) {
+      return result(
+        context.tags
+          .filter((tag) => tag.startsWith(text.slice(1)))
+          .map((tag) => ({ value: `${negation}#${tag}`, description: "tag" })),
+      )
+    }
+    return result([
+      ...fieldNames
+        .filter((name) => text !== "" && name.startsWith(text))
+        .map((name) => ({ value: `${negation}${name}:`, description: queryFields[name] })),
+      ...Object.keys(flags)
+        .filter((flag) => text !== "" && flag.startsWith(text) && flag !== text)
+        .map((flag) => ({ value: `${negation}${flag}`, description: `same as is:${flag}` })),
+    ])
+  }
+
+  const [, name, partial] = field
+  const values: Partial<Record<Field, string[]>> = {
+    priority: [...priorities, ">=medium"],
+    due: ["today", "tomorrow", "<7d", "<0d", "none"],
+    created: ["today", ">-7d", ">-30d"],
+    tag: context.tags,
+    list: [INBOX, ...context.lists.map((list) => (list.name.includes(" ") ? `"${list.name}"` : list.name))],
+    is: Object.keys(flags),
+    has: Object.keys(has),
+  }
+  return result(
+    (values[name as Field] ?? [])
+      .filter((value) => value.toLowerCase().startsWith(partial))
+      .map((value) => ({ value: `${negation}${name}:${value}`, description: name })),
+  )
+}
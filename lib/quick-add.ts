@@ -0,0 +1,200 @@
+import { addDays, addMonths, addWeeks, startOfWeek } from "date-fns"
+
+import type { Priority } from "@/lib/todo"
+import type { RepeatRule } from "@/lib/repeat-rule"
+import { WEEKDAYS, nextOccurrence } from "@/lib/repeat-rule"
+import { extractTags, normalizeTags } from "@/lib/tags"
+
+export type QuickAddPart = "deadline" | "priority" | "tags" | "repeat"
+
+export interface QuickAdd {
+  text: string
+  deadline?: Date
+  priority?: Priority
+  tags?: string[]
+  repeat?: RepeatRule
+}
+
+const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+const dayPattern = "(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|sday|nesday|rsday|urday)?"
+const monthPattern = "(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?"
+
+const dayIndex = (name: string) => dayNames.findIndex((day) => day.startsWith(name.toLowerCase().slice(0, 3)))
+const monthIndex = (name: string) =>
+  ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"].indexOf(name.toLowerCase().slice(0, 3))
+
+const priorityWords: Record<string, Priority> = {
+  high: "high",
+  h: "high",
+  "1": "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  "2": "medium",
+  low: "low",
+  l: "low",
+  "3": "low",
+}
+
+// Dates without a time are due at the end of the day
+const END_OF_DAY: [number, number] = [23, 59]
+
+// Hands matches of `pattern` to `read` until it accepts one (by not returning false), then blanks
+// that match out of the working text
+const take = (state: { text: string }, pattern: RegExp, read: (match: RegExpExecArray) => boolean | void) => {
+  const global = new RegExp(pattern.source, pattern.flags + "g")
+  for (let match = global.exec(state.text); match; match = global.exec(state.text)) {
+    if (read(match) === false) continue
+    state.text = state.text.slice(0, match.index) + " " + state.text.slice(match.index + match[0].length)
+    return true
+  }
+  return false
+}
+
+const nextWeekday = (from: Date, weekday: number, includeToday: boolean) => {
+  const days = (weekday - from.getDay() + 7) % 7
+  return addDays(from, days === 0 && !includeToday ? 7 : days)
+}
+
+const parseRepeat = (state: { text: string }): RepeatRule | undefined => {
+  let rule: RepeatRule | undefined
+  take(state, /\bevery\s+weekday\b/i, () => void (rule = { freq: "weekly", interval: 1, weekdays: WEEKDAYS })) ||
+    take(state, /\b(daily|weekly|monthly|yearly|annually)\b/i, (m) => {
+      const freq = m[1].toLowerCase()
+      rule = { freq: freq === "annually" ? "yearly" : (freq as RepeatRule["freq"]), interval: 1 }
+    }) ||
+    take(state, /\bevery\s+(?:(other)\s+|(\d+)\s+)?(day|week|month|year)s?\b/i, (m) => {
+      const unit = m[3].toLowerCase() as "day" | "week" | "month" | "year"
+      const freq = ({ day: "daily", week: "weekly", month: "monthly", year: "yearly" } as const)[unit]
+      rule = { freq, interval: m[1] ? 2 : Number(m[2] ?? 1) }
+    }) ||
+    take(
+      state,
+      new RegExp(`\\bevery\\s+${dayPattern}((?:\\s*(?:,|and|&)\\s*${dayPattern})*)\\b`, "i"),
+      (m) => {
+        const names = m[0].replace(/^every\s+/i, "").split(/\s*(?:,|and|&)\s*/i)
+        const weekdays = Array.from(new Set(names.map(dayIndex))).sort()
+        if (weekdays.includes(-1)) return false
+        rule = { freq: "weekly", interval: 1, weekdays }
+      },
+    )
+  return rule
+}
+
+const parseTime = (state: { text: string }): [number, number] | undefined => {
+  let time: [number, number] | undefined
+  take(state, /\b(?:at\s+)?(\d{1,2})(?::([0-5]\d))?\s*(am|pm)\b/i, (m) => {
+    const hour = Number(m[1])
+    if (hour < 1 || hour > 12) return false
+    time = [(hour % 12) + (m[3].toLowerCase() === "pm" ? 12 : 0), Number(m[2] ?? 0)]
+  }) ||
+    take(state, /\b(?:at\s+)?([01]?\d|2[0-3]):([0-5]\d)\b/i, (m) => void (time = [Number(m[1]), Number(m[2])])) ||
+    take(state, /\b(?:at\s+)?(noon|midnight)\b/i, (m) => void (time = m[1].toLowerCase() === "noon" ? [12, 0] : [0, 0]))
+  return time
+}
+
+// A date with an exact time already, or a day that still needs one
+type ParsedDate = { date: Date; exact: boolean }
+
+const parseDate = (state: { text: string }, now: Date): ParsedDate | undefined => {
+  let parsed: ParsedDate | undefined
+  const day = (date: Date) => void (parsed = { date, exact: false })
+  const prefix = "\\b(?:(?:by|on|due)\\s+)?"
+
+  take(state, /\bin\s+(\d+)\s+(min(?:ute)?s?|h(?:ou)?rs?|days?|weeks?|months?)\b/i, (m) => {
+    const amount = Number(m[1])
+    const unit = m[2].toLowerCase()
+    if (unit.startsWith("min")) parsed = { date: new Date(now.getTime() + amount * 60 * 1000), exact: true }
+    else if (unit.startsWith("h")) parsed = { date: new Date(now.getTime() + amount * 60 * 60 * 1000), exact: true }
+    else if (unit.startsWith("d")) day(addDays(now, amount))
+    else if (unit.startsWith("w")) day(addWeeks(now, amount))
+    else day(addMonths(now, amount))
+  }) ||
+    take(state, new RegExp(`${prefix}(today|tonight|tomorrow|tmrw?)\\b`, "i"), (m) => {
+      const word = m[1].toLowerCase()
+      if (word === "tonight") {
+        const tonight = new Date(now)
+        tonight.setHours(20, 0, 0, 0)
+        parsed = { date: tonight, exact: true }
+      } else day(word === "today" ? now : addDays(now, 1))
+    }) ||
+    take(state, /\bnext\s+(week|month)\b/i, (m) =>
+      day(m[1].toLowerCase() === "week" ? startOfWeek(addWeeks(now, 1), { weekStartsOn: 1 }) : addMonths(now, 1)),
+    ) ||
+    take(state, new RegExp(`${prefix}(\\d{4})-(\\d{2})-(\\d{2})\\b`), (m) =>
+      day(new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]))),
+    ) ||
+    take(state, new RegExp(`${prefix}${monthPattern}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"), (m) =>
+      day(upcoming(new Date(now.getFullYear(), monthIndex(m[1]), Number(m[2])), now)),
+    ) ||
+    take(state, new RegExp(`${prefix}(\\d{1,2})(?:st|nd|rd|th)?\\s+${monthPattern}(?=\\s|$)`, "i"), (m) =>
+      day(upcoming(new Date(now.getFullYear(), monthIndex(m[2]), Number(m[1])), now)),
+    ) ||
+    // Abbreviated day names are only taken after "on" or "next", since words like "sat" are common
+    take(
+      state,
+      new RegExp(`\\b(?:(by|on|due|next)\\s+)?(${dayNames.join("|")}|${dayPattern})\\b`, "i"),
+      (m) => {
+        const word = m[1]?.toLowerCase()
+        if (!dayNames.includes(m[2].toLowerCase()) && word !== "on" && word !== "next") return false
+        day(nextWeekday(now, dayIndex(m[2]), word !== "next"))
+      },
+    )
+  return parsed
+}
+
+// Dates without a year that already passed this year mean next year
+const upcoming = (date: Date, now: Date) => {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  if (date < today) date.setFullYear(date.getFullYear() + 1)
+  return date
+}
+
+// The first occurrence of a repeat rule given without a date
+const firstOccurrence = (rule: RepeatRule, now: Date) =>
+  rule.freq === "weekly" && rule.weekdays?.length
+    ? rule.weekdays.map((weekday) => nextWeekday(now, weekday, true)).sort((a, b) => a.getTime() - b.getTime())[0]
+    : now
+
+/**
+ * Reads a deadline, priority, tags and a repeat rule out of a task title, e.g.
+ * "Send report tomorrow 5pm !high #work every friday". Recognised phrases are removed from the
+ * text; parts listed in `ignore` are left in it as typed.
+ */
+export const parseQuickAdd = (input: string, now = new Date(), ignore: QuickAddPart[] = []): QuickAdd => {
+  const state = { text: input }
+  const result: QuickAdd = { text: "" }
+
+  if (!ignore.includes("tags")) {
+    const inline = extractTags(state.text)
+    state.text = inline.text
+    result.tags = normalizeTags(inline.tags)
+  }
+
+  if (!ignore.includes("priority")) {
+    take(state, /(?:^|\s)!(high|medium|med|low|[hml123])(?=\s|$)/i, (m) => {
+      result.priority = priorityWords[m[1].toLowerCase()]
+    })
+  }
+
+  if (!ignore.includes("repeat")) result.repeat = parseRepeat(state)
+
+  if (!ignore.includes("deadline")) {
+    const parsed = parseDate(state, now)
+    const time = parsed?.exact ? undefined : parseTime(state)
+    let date = parsed?.date ?? (time || result.repeat ? firstOccurrence(result.repeat ?? { freq: "daily", interval: 1 }, now) : undefined)
+    if (date && !parsed?.exact) {
+      date = new Date(date)
+      const [hours, minutes] = time ?? END_OF_DAY
+      date.setHours(hours, minutes, 0, 0)
+      // A bare time that already passed today means the next day, or the next occurrence of a repeat
+      if (!parsed && date < now) date = result.repeat ? (nextOccurrence(result.repeat, date, 1) ?? date) : addDays(date, 1)
+    }
+    result.deadline = date
+  }
+
+  if (result.repeat?.freq === "monthly" && result.deadline) result.repeat.monthDay = result.deadline.getDate()
+
+  result.text = state.text.replace(/\s+/g, " ").trim()
+  return result
+}
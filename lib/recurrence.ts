@@ -0,0 +1,97 @@
+import { createId } from "@/lib/id"
+import { nextOccurrence } from "@/lib/repeat-rule"
+import { seriesFields, updateTodo, type Recurrence, type Todo, type TodoChanges } from "@/lib/todo"
+
+// The values the rest of the series uses: this todo's own, except where only this occurrence was edited
+const seriesValues = (todo: Todo): TodoChanges => {
+  const values: Record<string, unknown> = {}
+  for (const field of seriesFields) {
+    const override = todo.repeat?.series?.[field]
+    values[field] = override === undefined ? todo[field] : (override ?? undefined)
+  }
+  return values as TodoChanges
+}
+
+// When the occurrence after this one is due, or null once the series has ended
+export const upcomingDate = (todo: Todo, now = new Date()) => {
+  if (!todo.repeat) return null
+  return nextOccurrence(todo.repeat.rule, seriesValues(todo).deadline ?? now, todo.repeat.occurrence)
+}
+
+const nextInstance = (todo: Todo, now: Date): Todo | null => {
+  const deadline = upcomingDate(todo, now)
+  if (!deadline || !todo.repeat) return null
+  return {
+    ...todo,
+    ...seriesValues(todo),
+    id: createId(now.getTime()),
+    completed: false,
+    inProgress: undefined,
+    createdAt: now,
+    deadline,
+    // Starts as long before its deadline as this one did
+    startDate:
+      todo.startDate && todo.deadline && new Date(deadline.getTime() - (todo.deadline.getTime() - todo.startDate.getTime())),
+    deletedAt: undefined,
+    // Time is tracked per occurrence
+    timeEntries: undefined,
+    repeat: { rule: todo.repeat.rule, occurrence: todo.repeat.occurrence + 1 },
+    fieldUpdatedAt: {},
+  }
+}
+
+/**
+ * Toggles a todo's completion. Completing an occurrence of a recurring todo turns it into a
+ * plain completed task and adds the next occurrence in its place.
+ */
+export const toggleCompletion = (todos: Todo[], id: string, now = new Date()): Todo[] => {
+  const todo = todos.find((t) => t.id === id)
+  if (!todo) return todos
+  if (todo.completed || !todo.repeat) {
+    return todos.map((t) => (t.id === id ? updateTodo(t, { completed: !t.completed }, now.getTime()) : t))
+  }
+
+  const next = nextInstance(todo, now)
+  const done = updateTodo(todo, { completed: true, repeat: undefined }, now.getTime())
+  return todos.flatMap((t) => (t.id !== id ? [t] : next ? [next, done] : [done]))
+}
+
+// Moves a recurring todo on to its next occurrence without completing it; null when there is none
+export const skipOccurrence = (todo: Todo, now = new Date()): Todo | null => {
+  const next = nextInstance(todo, now)
+  if (!next) return null
+  const { id, createdAt, completed, fieldUpdatedAt, ...changes } = next
+  return updateTodo(todo, changes, now.getTime())
+}
+
+const changedSeriesFields = (todo: Todo, changes: TodoChanges) =>
+  seriesFields.filter(
+    (field) => field in changes && JSON.stringify(changes[field]) !== JSON.stringify(todo[field]),
+  )
+
+// The recurrence to save with an edit, taking a changed repeat rule from the edit itself
+const recurrenceFor = (todo: Todo, changes: TodoChanges): Recurrence | undefined =>
+  "repeat" in changes ? changes.repeat : todo.repeat
+
+/**
+ * Changes that edit only this occurrence: the values they replace are remembered so the
+ * following occurrences go back to them.
+ */
+export const changesForOccurrence = (todo: Todo, changes: TodoChanges): TodoChanges => {
+  const repeat = recurrenceFor(todo, changes)
+  if (!repeat) return changes
+  const series = { ...repeat.series }
+  for (const field of changedSeriesFields(todo, changes)) {
+    if (!(field in series)) (series as Record<string, unknown>)[field] = todo[field] ?? null
+  }
+  return { ...changes, repeat: { ...repeat, series } }
+}
+
+// Changes that edit this and all following occurrences, dropping any one-off values they replace
+export const changesForSeries = (todo: Todo, changes: TodoChanges): TodoChanges => {
+  const repeat = recurrenceFor(todo, changes)
+  if (!repeat?.series) return changes
+  const series = { ...repeat.series }
+  for (const field of changedSeriesFields(todo, changes)) delete series[field]
+  return { ...changes, repeat: { ...repeat, series: Object.keys(series).length > 0 ? series : undefined } }
+}
@@ -0,0 +1,102 @@
+import { z } from "zod"
+
+import type { Todo } from "@/lib/todo"
+import { isTrashed } from "@/lib/trash"
+
+export const REMINDERS_KEY = "todo-reminders"
+
+// Reminders delivered while the app was closed are still shown if they are at most this late
+export const MISSED_GRACE_MS = 24 * 60 * 60 * 1000
+
+// Minutes before the deadline offered in the editor; 0 reminds at the deadline itself
+export const reminderPresets = [0, 5, 15, 30, 60, 120, 24 * 60]
+
+export const snoozeOptions = [
+  { minutes: 10, label: "10 minutes" },
+  { minutes: 60, label: "1 hour" },
+]
+
+export interface Reminder {
+  // Changes with the deadline, so moving a deadline re-arms reminders already delivered
+  key: string
+  todo: Todo
+  at: Date
+}
+
+// What this device has already shown, kept in localStorage so reloads do not repeat or lose reminders
+export interface ReminderState {
+  delivered: Record<string, number>
+  snoozed: Record<string, number>
+}
+
+const reminderStateSchema = z.object({
+  delivered: z.record(z.number()).catch({}),
+  snoozed: z.record(z.number()).catch({}),
+})
+
+export const formatOffset = (minutes: number) => {
+  if (minutes === 0) return "At deadline"
+  if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)} day${minutes === 24 * 60 ? "" : "s"} before`
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? "" : "s"} before`
+  return `${minutes} min before`
+}
+
+export const remindersOf = (todo: Todo): Reminder[] => {
+  const { deadline } = todo
+  if (!deadline || todo.completed || isTrashed(todo)) return []
+  return (todo.reminders ?? []).map((minutes) => ({
+    key: `${todo.id}:${minutes}:${deadline.getTime()}`,
+    todo,
+    at: new Date(deadline.getTime() - minutes * 60 * 1000),
+  }))
+}
+
+// When a reminder should go off, taking a snooze into account
+const dueAt = (reminder: Reminder, state: ReminderState) => state.snoozed[reminder.key] ?? reminder.at.getTime()
+
+export const dueReminders = (todos: Todo[], state: ReminderState, now = Date.now()) =>
+  todos
+    .flatMap(remindersOf)
+    .filter((reminder) => {
+      const at = dueAt(reminder, state)
+      return at <= now && at > now - MISSED_GRACE_MS && !(state.delivered[reminder.key] >= at)
+    })
+
+export const nextReminderTime = (todos: Todo[], state: ReminderState, now = Date.now()) => {
+  const upcoming = todos
+    .flatMap(remindersOf)
+    .map((reminder) => dueAt(reminder, state))
+    .filter((at) => at > now)
+  return upcoming.length > 0 ? Math.min(...upcoming) : null
+}
+
+export const markDelivered = (state: ReminderState, keys: string[], now = Date.now()): ReminderState => ({
+  ...state,
+  delivered: { ...state.delivered, ...Object.fromEntries(keys.map((key) => [key, now])) },
+})
+
+export const snooze = (state: ReminderState, key: string, minutes: number, now = Date.now()): ReminderState => ({
+  ...state,
+  snoozed: { ...state.snoozed, [key]: now + minutes * 60 * 1000 },
+})
+
+// Entries for reminders that no longer exist, e.g. after the deadline moved, are dropped
+export const pruneReminderState = (state: ReminderState, todos: Todo[]): ReminderState => {
+  const keys = new Set(todos.flatMap(remindersOf).map((reminder) => reminder.key))
+  const keep = (entries: Record<string, number>) =>
+    Object.fromEntries(Object.entries(entries).filter(([key]) => keys.has(key)))
+  return { delivered: keep(state.delivered), snoozed: keep(state.snoozed) }
+}
+
+export const loadReminderState = (): ReminderState => {
+  try {
+    const raw = localStorage.getItem(REMINDERS_KEY)
+    return reminderStateSchema.parse(raw ? JSON.parse(raw) : {})
+  } catch {
+    return { delivered: {}, snoozed: {} }
+  }
+}
+
+export const saveReminderState = (state: ReminderState) => {
+  localStorage.setItem(REMINDERS_KEY, JSON.stringify(state))
+}
@@ -0,0 +1,125 @@
+import { addDays, addYears, differenceInCalendarWeeks, getDaysInMonth } from "date-fns"
+import { z } from "zod"
+
+export const frequencies = ["daily", "weekly", "monthly", "yearly"] as const
+
+export type Frequency = (typeof frequencies)[number]
+
+// Modelled on iCalendar RRULE: FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYDAY with a position, UNTIL and COUNT
+export interface RepeatRule {
+  freq: Frequency
+  // Every `interval` days, weeks, months or years
+  interval: number
+  // Weekly rules: the days of the week to repeat on, 0 being Sunday
+  weekdays?: number[]
+  // Monthly rules by date: the day of the month, clamped to shorter months
+  monthDay?: number
+  // Monthly rules by weekday: e.g. the 2nd Tuesday, with nth -1 for the last one
+  nthWeekday?: { weekday: number; nth: number }
+  // No occurrences after this date
+  until?: Date
+  // Total number of occurrences, the first included
+  count?: number
+}
+
+const weekday = z.number().int().min(0).max(6)
+
+export const repeatRuleSchema: z.ZodType<RepeatRule, z.ZodTypeDef, unknown> = z.object({
+  freq: z.enum(frequencies),
+  interval: z.number().int().positive(),
+  weekdays: z.array(weekday).min(1).optional(),
+  monthDay: z.number().int().min(1).max(31).optional(),
+  nthWeekday: z.object({ weekday, nth: z.number().int().min(-1).max(4).refine((nth) => nth !== 0) }).optional(),
+  until: z.coerce.date().optional(),
+  count: z.number().int().positive().optional(),
+})
+
+export const WEEKDAYS = [1, 2, 3, 4, 5]
+
+const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const ordinals: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "last" }
+
+// The nth weekday of a month, keeping the time of day from `time`
+const nthWeekdayOf = (year: number, month: number, { weekday, nth }: { weekday: number; nth: number }, time: Date) => {
+  const date = new Date(time)
+  if (nth === -1) {
+    date.setFullYear(year, month, getDaysInMonth(new Date(year, month)))
+    date.setDate(date.getDate() - ((date.getDay() - weekday + 7) % 7))
+  } else {
+    date.setFullYear(year, month, 1)
+    date.setDate(1 + ((weekday - date.getDay() + 7) % 7) + (nth - 1) * 7)
+  }
+  return date
+}
+
+// The nth weekday a date falls on, counting from the end when it is in the last week of its month
+export const nthWeekdayFor = (date: Date, fromEnd = false) => ({
+  weekday: date.getDay(),
+  nth: fromEnd ? -1 : Math.ceil(date.getDate() / 7),
+})
+
+const nextDate = (rule: RepeatRule, from: Date): Date => {
+  switch (rule.freq) {
+    case "daily":
+      return addDays(from, rule.interval)
+
+    case "weekly": {
+      if (!rule.weekdays?.length) return addDays(from, rule.interval * 7)
+      // Later days of the current week first, then the matching days every `interval` weeks
+      for (let day = 1; day <= rule.interval * 7 + 7; day++) {
+        const candidate = addDays(from, day)
+        const weeks = differenceInCalendarWeeks(candidate, from)
+        if (weeks % rule.interval === 0 && rule.weekdays.includes(candidate.getDay())) return candidate
+      }
+      return addDays(from, rule.interval * 7)
+    }
+
+    case "monthly": {
+      const month = from.getMonth() + rule.interval
+      if (rule.nthWeekday) {
+        return nthWeekdayOf(from.getFullYear(), month, rule.nthWeekday, from)
+      }
+      const date = new Date(from)
+      date.setDate(1)
+      date.setMonth(month)
+      date.setDate(Math.min(rule.monthDay ?? from.getDate(), getDaysInMonth(date)))
+      return date
+    }
+
+    case "yearly":
+      return addYears(from, rule.interval)
+  }
+}
+
+/**
+ * The occurrence after `from`, where `from` is occurrence number `occurrence` of the series.
+ * Returns null once the series has ended by its count or end date.
+ */
+export const nextOccurrence = (rule: RepeatRule, from: Date, occurrence: number): Date | null => {
+  if (rule.count !== undefined && occurrence >= rule.count) return null
+  const next = nextDate(rule, from)
+  if (rule.until && next > rule.until) return null
+  return next
+}
+
+export const describeRule = (rule: RepeatRule) => {
+  const unit = { daily: "day", weekly: "week", monthly: "month", yearly: "year" }[rule.freq]
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+
+  if (rule.freq === "daily" && rule.interval === 1) text = "Daily"
+  if (rule.freq === "weekly" && rule.weekdays?.length) {
+    const days = [...rule.weekdays].sort()
+    text =
+      rule.interval === 1 && days.join() === WEEKDAYS.join()
+        ? "Every weekday"
+        : `${text} on ${days.map((day) => dayNames[day]).join(", ")}`
+  }
+  if (rule.freq === "monthly") {
+    if (rule.nthWeekday) text += ` on the ${ordinals[rule.nthWeekday.nth]} ${dayNames[rule.nthWeekday.weekday]}`
+    else if (rule.monthDay) text += ` on day ${rule.monthDay}`
+  }
+
+  if (rule.count) text += `, ${rule.count} times`
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString()}`
+  return text
+}
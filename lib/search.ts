@@ -0,0 +1,126 @@
+import type { Todo } from "@/lib/todo"
+
+// [start, end) character offsets into the original string
+export type Range = [number, number]
+
+export interface SearchMatch {
+  text: Range[]
+  description: Range[]
+}
+
+// Case- and accent-folded text, with the offset in the original string of each folded character
+interface Folded {
+  value: string
+  offsets: number[]
+}
+
+const fold = (text: string): Folded => {
+  let value = ""
+  const offsets: number[] = []
+  let position = 0
+  for (const char of text) {
+    const folded = char.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase()
+    value += folded
+    for (let i = 0; i < folded.length; i++) offsets.push(position)
+    position += char.length
+  }
+  // One past the end, so a range ending at the last character maps too
+  offsets.push(position)
+  return { value, offsets }
+}
+
+export const foldText = (text: string) => fold(text).value
+
+// Typos allowed per term, growing with its length so short terms must match exactly
+const tolerance = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0)
+
+// Edits needed to turn a into b, counting a swap of neighbouring letters as one
+const editDistance = (a: string, b: string, limit: number) => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)]
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(rows[i - 1][j] + 1, row[j - 1] + 1, rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], rows[i - 2][j - 2] + 1)
+      }
+    }
+    rows.push(row)
+  }
+  return rows[a.length][b.length]
+}
+
+// Ranges in `folded` where `term` occurs, or failing that the words it is a near miss for
+const findTerm = (folded: string, term: string): Range[] => {
+  const exact: Range[] = []
+  for (let i = folded.indexOf(term); i !== -1; i = folded.indexOf(term, i + term.length)) {
+    exact.push([i, i + term.length])
+  }
+  if (exact.length > 0) return exact
+
+  const limit = tolerance(term)
+  if (limit === 0) return []
+  const fuzzy: Range[] = []
+  for (const word of folded.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const text = word[0]
+    // Comparing against the word's start as well lets a half-typed, misspelt word still match
+    if (
+      editDistance(term, text, limit) <= limit ||
+      (text.length > term.length && editDistance(term, text.slice(0, term.length), limit) <= limit)
+    ) {
+      fuzzy.push([word.index!, word.index! + text.length])
+    }
+  }
+  return fuzzy
+}
+
+const toOriginal = ({ offsets }: Folded, ranges: Range[]): Range[] =>
+  ranges.map(([start, end]) => [offsets[start], offsets[end]])
+
+// Sorted, with overlapping ranges joined
+const mergeRanges = (ranges: Range[]): Range[] =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Range[]>((merged, range) => {
+      const last = merged[merged.length - 1]
+      if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1])
+      else merged.push([...range])
+      return merged
+    }, [])
+
+export const searchTerms = (query: string) => foldText(query).split(/\s+/).filter(Boolean)
+
+/**
+ * Matches a todo against every term of a query, each of which must be found in the title or
+ * the description. Returns the ranges to highlight, or null when the todo does not match.
+ */
+export const searchTodo = (todo: Todo, terms: string[]): SearchMatch | null => {
+  const text = fold(todo.text)
+  const description = fold(todo.description ?? "")
+  const match: SearchMatch = { text: [], description: [] }
+
+  for (const term of terms) {
+    const inText = findTerm(text.value, term)
+    const inDescription = findTerm(description.value, term)
+    if (inText.length === 0 && inDescription.length === 0) return null
+    match.text.push(...toOriginal(text, inText))
+    match.description.push(...toOriginal(description, inDescription))
+  }
+  return { text: mergeRanges(match.text), description: mergeRanges(match.description) }
+}
+
+// A short piece of `text` around its first match, with the ranges shifted to fit
+export const snippet = (text: string, ranges: Range[], context = 40): { text: string; ranges: Range[] } => {
+  if (ranges.length === 0) return { text: "", ranges: [] }
+  const start = Math.max(0, ranges[0][0] - context)
+  const end = Math.min(text.length, ranges[0][1] + context * 2)
+  const prefix = start > 0 ? "…" : ""
+  const shift = prefix.length - start
+  return {
+    text: prefix + text.slice(start, end) + (end < text.length ? "…" : ""),
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]): Range => [s + shift, e + shift]),
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+
+import { DependencyCycleError, type BlockedError } from "@/lib/dependencies"
+import { CorruptStoreError } from "@/lib/server/todo-store"
+import { StorageVersionError } from "@/lib/storage/schema"
+
+export interface ApiError {
+  error: {
+    code:
+      | "invalid_json"
+      | "validation_error"
+      | "not_found"
+      | "dependency_cycle"
+      | "blocked"
+      | "storage_version"
+      | "storage_corrupt"
+    message: string
+    issues?: { path: string; message: string }[]
+  }
+}
+
+export const validationError = (error: z.ZodError) =>
+  NextResponse.json<ApiError>(
+    {
+      error: {
+        code: "validation_error",
+        message: "The request body is invalid",
+        issues: error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    },
+    { status: 422 },
+  )
+
+export const notFound = (id: string) =>
+  NextResponse.json<ApiError>({ error: { code: "not_found", message: `Todo ${id} does not exist` } }, { status: 404 })
+
+// A "blocked by" link that would form a cycle, or completing a todo whose blockers are not done
+export const dependencyError = (error: DependencyCycleError | BlockedError) =>
+  error instanceof DependencyCycleError
+    ? NextResponse.json<ApiError>({ error: { code: "dependency_cycle", message: error.message } }, { status: 422 })
+    : NextResponse.json<ApiError>({ error: { code: "blocked", message: error.message } }, { status: 409 })
+
+// Wraps a route handler so a data file this server can't read answers with an ApiError rather than a bare 500
+export const withStoreErrors =
+  <A extends unknown[]>(handler: (...args: A) => Promise<Response>) =>
+  async (...args: A): Promise<Response> => {
+    try {
+      return await handler(...args)
+    } catch (error) {
+      if (!(error instanceof StorageVersionError || error instanceof CorruptStoreError)) throw error
+      return error instanceof StorageVersionError
+        ? NextResponse.json<ApiError>({ error: { code: "storage_version", message: error.message } }, { status: 409 })
+        : NextResponse.json<ApiError>({ error: { code: "storage_corrupt", message: error.message } }, { status: 500 })
+    }
+  }
+
+// Parses the request body against a schema, returning either the data or a ready-made error response
+export const parseBody = async <T>(
+  request: Request,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<{ data: T } | { response: NextResponse<ApiError> }> => {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return {
+      response: NextResponse.json<ApiError>(
+        { error: { code: "invalid_json", message: "The request body is not valid JSON" } },
+        { status: 400 },
+      ),
+    }
+  }
+
+  const parsed = schema.safeParse(body)
+  return parsed.success ? { data: parsed.data } : { response: validationError(parsed.error) }
+}
@@ -0,0 +1,170 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises"
+import path from "path"
+
+import { updateTodo as applyChanges, type Todo, type TodoInput, type TodoUpdate } from "@/lib/todo"
+import { createId } from "@/lib/id"
+import { normalizeTags } from "@/lib/tags"
+import { toggleCompletion } from "@/lib/recurrence"
+import { BlockedError, blockersOf, checkBlockers } from "@/lib/dependencies"
+import {
+  StorageVersionError,
+  parseStoredTodos,
+  serializeTodos,
+  type LoadResult,
+  type QuarantinedRecord,
+} from "@/lib/storage/schema"
+
+const dataFile = () => process.env.TODO_DATA_FILE ?? path.join(process.cwd(), "data", "todos.json")
+
+// File access is chained so concurrent requests never interleave a read-modify-write
+let queue: Promise<unknown> = Promise.resolve()
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = queue.then(task)
+  queue = next.catch(() => {})
+  return next
+}
+
+const writeTodos = async (todos: Todo[], quarantined: QuarantinedRecord[]) => {
+  const file = dataFile()
+  await mkdir(path.dirname(file), { recursive: true })
+  if (quarantined.length > 0) {
+    // Invalid records are dropped by this write, so keep a copy beside the data file
+    await appendFile(`${file}.quarantine`, quarantined.map((entry) => JSON.stringify(entry) + "\n").join(""))
+  }
+  await writeFile(`${file}.tmp`, serializeTodos(todos))
+  await rename(`${file}.tmp`, file)
+}
+
+// Thrown when the data file exists but is not JSON or not in a shape any version of the app wrote
+export class CorruptStoreError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CorruptStoreError"
+  }
+}
+
+const readStore = async (): Promise<LoadResult> => {
+  let raw: string
+  try {
+    raw = await readFile(dataFile(), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return { todos: [], quarantined: [] }
+    throw error
+  }
+  let result: LoadResult
+  try {
+    result = parseStoredTodos(raw)
+  } catch (error) {
+    if (error instanceof StorageVersionError) throw error
+    throw new CorruptStoreError(`The todo data file could not be read: ${(error as Error).message}`)
+  }
+  if (result.rekeyed?.length) {
+    // Persist repaired ids right away so every read hands out the same ones
+    await writeTodos(result.todos, result.quarantined)
+    return { todos: result.todos, quarantined: [] }
+  }
+  return result
+}
+
+const mutate = <T>(change: (todos: Todo[]) => { todos: Todo[]; result: T }) =>
+  enqueue(async () => {
+    const { todos: current, quarantined } = await readStore()
+    const { todos, result } = change(current)
+    await writeTodos(todos, quarantined)
+    return result
+  })
+
+const applyUpdate = (
+  todo: Todo,
+  {
+    description,
+    deadline,
+    startDate,
+    duration,
+    reminders,
+    parentId,
+    listId,
+    tags,
+    repeat,
+    order,
+    timeEntries,
+    blockedBy,
+    ...update
+  }: TodoUpdate,
+): Todo =>
+  applyChanges(todo, {
+    ...update,
+    ...(description !== undefined && { description: description ?? undefined }),
+    ...(deadline !== undefined && { deadline: deadline ?? undefined }),
+    ...(startDate !== undefined && { startDate: startDate ?? undefined }),
+    ...(duration !== undefined && { duration: duration ?? undefined }),
+    ...(reminders !== undefined && { reminders: reminders ?? undefined }),
+    ...(parentId !== undefined && { parentId: parentId ?? undefined }),
+    ...(listId !== undefined && { listId: listId ?? undefined }),
+    ...(tags !== undefined && { tags: tags ? normalizeTags(tags) : undefined }),
+    ...(repeat !== undefined && { repeat: repeat ?? undefined }),
+    ...(order !== undefined && { order: order ?? undefined }),
+    ...(timeEntries !== undefined && { timeEntries: timeEntries ?? undefined }),
+    ...(blockedBy !== undefined && { blockedBy: blockedBy ?? undefined }),
+  })
+
+export const listTodos = () => enqueue(async () => (await readStore()).todos)
+
+export const getTodo = async (id: string) => (await listTodos()).find((todo) => todo.id === id) ?? null
+
+export const createTodo = (input: TodoInput) =>
+  mutate((todos) => {
+    const todo: Todo = {
+      ...input,
+      tags: input.tags && normalizeTags(input.tags),
+      id: createId(),
+      createdAt: new Date(),
+      ...(input.completed && { completedAt: new Date() }),
+      fieldUpdatedAt: {},
+    }
+    return { todos: [todo, ...todos], result: todo }
+  })
+
+// Inserts or replaces a whole todo, keeping the id and createdAt the client chose
+export const putTodo = (todo: Todo) =>
+  mutate((todos) => {
+    const exists = todos.some((t) => t.id === todo.id)
+    const next = exists ? todos.map((t) => (t.id === todo.id ? todo : t)) : [todo, ...todos]
+    if (todo.blockedBy) checkBlockers(next, todo.id, todo.blockedBy)
+    return { todos: next, result: todo }
+  })
+
+export const replaceTodos = (todos: Todo[]) => mutate(() => ({ todos, result: todos }))
+
+// Completing a recurring todo also creates its next occurrence. A todo waiting on unfinished
+// blockers throws a BlockedError instead, unless the completion is forced.
+const setCompletion = (todos: Todo[], id: string, completed: boolean, force: boolean) => {
+  const todo = todos.find((t) => t.id === id)
+  if (!todo || todo.completed === completed) return todos
+  const blockers = completed ? blockersOf(todo, todos) : []
+  if (blockers.length > 0 && !force) throw new BlockedError(blockers)
+  return toggleCompletion(todos, id)
+}
+
+// A change to `completed` is applied after the other fields, exactly as a toggle would apply it
+export const updateTodo = (id: string, { completed, ...update }: TodoUpdate, force = false) =>
+  mutate((todos) => {
+    if (update.blockedBy) checkBlockers(todos, id, update.blockedBy)
+    let next = todos.map((todo) => (todo.id === id ? applyUpdate(todo, update) : todo))
+    if (completed !== undefined) next = setCompletion(next, id, completed, force)
+    return { todos: next, result: next.find((todo) => todo.id === id) ?? null }
+  })
+
+export const toggleTodo = (id: string, force = false) =>
+  mutate((todos) => {
+    const todo = todos.find((t) => t.id === id)
+    const next = todo ? setCompletion(todos, id, !todo.completed, force) : todos
+    return { todos: next, result: next.find((todo) => todo.id === id) ?? null }
+  })
+
+export const deleteTodo = (id: string) =>
+  mutate((todos) => ({
+    todos: todos.filter((todo) => todo.id !== id),
+    result: todos.some((todo) => todo.id === id),
+  }))
@@ -0,0 +1,60 @@
+import { z } from "zod"
+
+import { defaultLists, todoListSchema } from "@/lib/lists"
+import { tagColorsSchema } from "@/lib/tags"
+import { savedViewSchema } from "@/lib/views"
+import { sortOrderSchema } from "@/lib/sort"
+import { boardGroupings } from "@/lib/board"
+import { calendarModes } from "@/lib/calendar"
+import { zoomLevels } from "@/lib/timeline"
+
+export const SETTINGS_KEY = "todo-settings"
+
+export const settingsSchema = z.object({
+  // Days a deleted todo stays in the trash before it is purged; null keeps it forever
+  trashRetentionDays: z.number().int().positive().nullable().default(30),
+  lists: z.array(todoListSchema).default(defaultLists),
+  // Complete a parent task once all its subtasks are done, and reopen it when one is reopened
+  autoCompleteParents: z.boolean().default(true),
+  // Colours picked in the tag manager, by tag name
+  tagColors: tagColorsSchema.default({}),
+  // Filter queries saved as tabs
+  views: z.array(savedViewSchema).default([]),
+  // Sort order of each tab or saved view, by its tab value
+  sortOrders: z.record(sortOrderSchema).default({}),
+  // Whether todos show as a list, a board, a calendar or a timeline, and how each of those is set up
+  layout: z.enum(["list", "board", "calendar", "timeline"]).default("list"),
+  boardGrouping: z.enum(boardGroupings).default("status"),
+  calendarMode: z.enum(calendarModes).default("month"),
+  timelineZoom: z.enum(zoomLevels).default("week"),
+  // Cards a board column should hold at most, by grouping and column key, e.g. "status:in-progress"
+  wipLimits: z.record(z.number().int().positive()).default({}),
+})
+
+export type Settings = z.infer<typeof settingsSchema>
+
+export const defaultSettings: Settings = settingsSchema.parse({})
+
+// Unknown or invalid values fall back to their defaults instead of discarding every setting
+export const parseSettings = (raw: unknown): Settings => {
+  const input = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {}
+  const settings: Record<string, unknown> = { ...defaultSettings }
+  for (const [key, field] of Object.entries(settingsSchema.shape)) {
+    const parsed = (field as z.ZodTypeAny).safeParse(input[key])
+    if (parsed.success) settings[key] = parsed.data
+  }
+  return settings as Settings
+}
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY)
+    return raw ? parseSettings(JSON.parse(raw)) : defaultSettings
+  } catch {
+    return defaultSettings
+  }
+}
+
+export const saveSettings = (settings: Settings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+}
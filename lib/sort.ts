@@ -0,0 +1,91 @@
+import { z } from "zod"
+
+import { priorities, updateTodo, type Todo } from "@/lib/todo"
+
+export const sortKeys = ["manual", "priority", "deadline", "created", "alphabetical"] as const
+
+export type SortKey = (typeof sortKeys)[number]
+
+export const sortKeyLabels: Record<SortKey, string> = {
+  manual: "Manual",
+  priority: "Priority",
+  deadline: "Deadline",
+  created: "Date created",
+  alphabetical: "Alphabetical",
+}
+
+// A primary key with an optional secondary one for ties; manual order breaks any that remain
+export interface SortOrder {
+  by: SortKey
+  then: SortKey | null
+}
+
+export const sortOrderSchema = z.object({
+  by: z.enum(sortKeys),
+  then: z.enum(sortKeys).nullable().default(null),
+})
+
+export const defaultSortOrder: SortOrder = { by: "manual", then: null }
+
+const byTime = (a: Date | undefined, b: Date | undefined) => {
+  if (a && b) return a.getTime() - b.getTime()
+  // Todos without a date go last
+  return a ? -1 : b ? 1 : 0
+}
+
+// Todos never reordered by hand have no order and stay ahead of those that were, in stored order
+const byOrder = (a: Todo, b: Todo) => {
+  if (a.order === undefined) return b.order === undefined ? 0 : -1
+  if (b.order === undefined) return 1
+  return a.order - b.order
+}
+
+const comparators: Record<SortKey, (a: Todo, b: Todo) => number> = {
+  manual: byOrder,
+  priority: (a, b) => priorities.indexOf(b.priority) - priorities.indexOf(a.priority),
+  // Overdue todos have the earliest deadlines, so they come first
+  deadline: (a, b) => byTime(a.deadline, b.deadline),
+  created: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  alphabetical: (a, b) => a.text.localeCompare(b.text, undefined, { sensitivity: "base", numeric: true }),
+}
+
+export const compareTodos =
+  ({ by, then }: SortOrder) =>
+  (a: Todo, b: Todo) =>
+    comparators[by](a, b) || (then ? comparators[then](a, b) : 0) || byOrder(a, b)
+
+// Siblings in manual order: top-level todos as stored, subtasks oldest first like the tree shows them
+const siblingsOf = (todos: Todo[], parentId: string | undefined) => {
+  const siblings = todos.filter((todo) => todo.parentId === parentId)
+  if (parentId) siblings.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  return siblings.sort(byOrder)
+}
+
+// The order for a new todo so it shows up first or last among its siblings once any were reordered
+export const orderForNew = (todos: Todo[], parentId: string | undefined, position: "first" | "last") => {
+  const orders = todos.flatMap((todo) => (todo.parentId === parentId && todo.order !== undefined ? [todo.order] : []))
+  if (orders.length === 0) return undefined
+  return position === "first" ? Math.min(...orders) - 1 : Math.max(...orders) + 1
+}
+
+/**
+ * Moves a todo next to a sibling in the manual order, renumbering its siblings so every one of
+ * them has an order. Todos with different parents are left alone.
+ */
+export const moveTodo = (
+  todos: Todo[],
+  id: string,
+  targetId: string,
+  place: "before" | "after",
+  now = Date.now(),
+): Todo[] => {
+  const moving = todos.find((todo) => todo.id === id)
+  const target = todos.find((todo) => todo.id === targetId)
+  if (!moving || !target || id === targetId || moving.parentId !== target.parentId) return todos
+
+  const siblings = siblingsOf(todos, moving.parentId).filter((todo) => todo.id !== id)
+  const index = siblings.findIndex((todo) => todo.id === targetId) + (place === "after" ? 1 : 0)
+  siblings.splice(index, 0, moving)
+  const positions = new Map(siblings.map((todo, i) => [todo.id, i]))
+  return todos.map((todo) => (positions.has(todo.id) ? updateTodo(todo, { order: positions.get(todo.id) }, now) : todo))
+}
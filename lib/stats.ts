@@ -0,0 +1,99 @@
+import {
+  addDays,
+  addWeeks,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  format,
+  max,
+  min,
+  startOfDay,
+  subDays,
+} from "date-fns"
+
+import { priorities, type Priority, type Todo } from "@/lib/todo"
+
+// Days the dashboard can look back over
+export const statsRanges = [7, 30, 90, 365] as const
+
+export type StatsRange = (typeof statsRanges)[number]
+
+export const statsBuckets = ["day", "week"] as const
+
+export type StatsBucket = (typeof statsBuckets)[number]
+
+export interface Range {
+  start: Date
+  end: Date
+}
+
+// Weeks start on Monday, as in the calendar
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+
+// The last `days` days up to now, today included
+export const rangeOf = (days: StatsRange, now = new Date()): Range => ({
+  start: startOfDay(subDays(now, days - 1)),
+  end: now,
+})
+
+const within = (date: Date | undefined, { start, end }: Range) => !!date && date >= start && date < end
+
+// Due before `at` and still open then; completed todos with no completedAt count as done all along
+const overdueAt = (todo: Todo, at: Date) =>
+  !!todo.deadline &&
+  todo.deadline < at &&
+  todo.createdAt <= at &&
+  !(todo.completed && (!todo.completedAt || todo.completedAt <= at))
+
+export interface ActivityPoint {
+  label: string
+  created: number
+  completed: number
+  // Overdue todos at the end of the period
+  overdue: number
+}
+
+// Todos created, completed and overdue in each day or week of the range, clipped to the range at both ends
+export const activityOf = (todos: Todo[], range: Range, bucket: StatsBucket): ActivityPoint[] => {
+  const starts = bucket === "day" ? eachDayOfInterval(range) : eachWeekOfInterval(range, WEEK_OPTIONS)
+  return starts.map((start) => {
+    const period = {
+      start: max([start, range.start]),
+      end: min([bucket === "day" ? addDays(start, 1) : addWeeks(start, 1), range.end]),
+    }
+    return {
+      label: format(start, "MMM d"),
+      created: todos.filter((todo) => within(todo.createdAt, period)).length,
+      completed: todos.filter((todo) => within(todo.completedAt, period)).length,
+      overdue: todos.filter((todo) => overdueAt(todo, period.end)).length,
+    }
+  })
+}
+
+export interface PriorityCompletion {
+  priority: Priority
+  total: number
+  completed: number
+  // Percentage of the total, null when there are none
+  rate: number | null
+}
+
+// How many of the todos created in the range are done, by priority
+export const completionByPriority = (todos: Todo[], range: Range): PriorityCompletion[] =>
+  priorities.map((priority) => {
+    const created = todos.filter((todo) => todo.priority === priority && within(todo.createdAt, range))
+    const completed = created.filter((todo) => todo.completed).length
+    return {
+      priority,
+      total: created.length,
+      completed,
+      rate: created.length > 0 ? Math.round((completed / created.length) * 100) : null,
+    }
+  })
+
+// Mean milliseconds from creation to completion of the todos completed in the range, null when there are none
+export const averageTimeToComplete = (todos: Todo[], range: Range) => {
+  const times = todos
+    .filter((todo) => todo.completed && within(todo.completedAt, range))
+    .map((todo) => todo.completedAt!.getTime() - todo.createdAt.getTime())
+  return times.length > 0 ? times.reduce((sum, time) => sum + time, 0) / times.length : null
+}
@@ -0,0 +1,45 @@
+import type { Todo } from "@/lib/todo"
+import type { LoadResult } from "@/lib/storage/schema"
+import { createApiAdapter } from "@/lib/storage/api-adapter"
+import { createIndexedDbAdapter } from "@/lib/storage/indexed-db-adapter"
+import { createLocalStorageAdapter } from "@/lib/storage/local-storage-adapter"
+
+export interface StorageAdapter {
+  load(): Promise<LoadResult>
+  // Replaces everything in storage with the given todos
+  save(todos: Todo[]): Promise<void>
+  put(todo: Todo): Promise<void>
+  delete(id: string): Promise<void>
+  // Notifies the listener with the full list whenever another tab changes storage
+  subscribe(listener: (todos: Todo[]) => void): () => void
+  close(): void
+}
+
+export interface TodoChanges {
+  put: Todo[]
+  deleted: string[]
+}
+
+// Todos are updated immutably, so unchanged records keep their identity and are skipped
+export const diffTodos = (previous: Todo[], next: Todo[]): TodoChanges => {
+  const previousById = new Map(previous.map((todo) => [todo.id, todo]))
+  const nextIds = new Set(next.map((todo) => todo.id))
+
+  return {
+    put: next.filter((todo) => previousById.get(todo.id) !== todo),
+    deleted: previous.filter((todo) => !nextIds.has(todo.id)).map((todo) => todo.id),
+  }
+}
+
+// "browser" keeps todos on this device, "api" stores them through the /api/todos routes
+export type StorageBackend = "browser" | "api"
+
+export const createStorageAdapter = (backend: StorageBackend = "browser"): StorageAdapter => {
+  if (backend === "api") {
+    return createApiAdapter()
+  }
+  if (typeof indexedDB !== "undefined") {
+    return createIndexedDbAdapter()
+  }
+  return createLocalStorageAdapter()
+}
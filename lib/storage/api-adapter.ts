@@ -0,0 +1,46 @@
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import { toStoredTodo, validateTodos } from "@/lib/storage/schema"
+
+const API_URL = "/api/todos"
+
+const request = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error?.message ?? `Request to ${url} failed with status ${response.status}`)
+  }
+  return response.status === 204 ? null : response.json()
+}
+
+// Persists through the app's own /api/todos route handlers
+export const createApiAdapter = (): StorageAdapter => ({
+  async load() {
+    const { todos } = await request(API_URL)
+    return validateTodos(todos)
+  },
+
+  async save(todos) {
+    await request(API_URL, { method: "PUT", body: JSON.stringify({ todos: todos.map(toStoredTodo) }) })
+  },
+
+  async put(todo) {
+    await request(`${API_URL}/${encodeURIComponent(todo.id)}`, {
+      method: "PUT",
+      body: JSON.stringify(toStoredTodo(todo)),
+    })
+  },
+
+  async delete(id) {
+    await request(`${API_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+  },
+
+  // The server has no push channel; changes made elsewhere show up on the next load
+  subscribe() {
+    return () => {}
+  },
+
+  close() {},
+})
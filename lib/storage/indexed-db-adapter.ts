@@ -0,0 +1,166 @@
+import type { Todo } from "@/lib/todo"
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import {
+  SCHEMA_VERSION,
+  STORAGE_KEY,
+  migratePayload,
+  parseStoredTodos,
+  toStoredTodo,
+  validateTodos,
+  type LoadResult,
+} from "@/lib/storage/schema"
+
+const DB_NAME = "todo-app"
+const DB_VERSION = 1
+const TODOS_STORE = "todos"
+const META_STORE = "meta"
+const SCHEMA_VERSION_KEY = "schemaVersion"
+const CHANNEL_NAME = "todo-app-storage"
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(TODOS_STORE)) {
+        db.createObjectStore(TODOS_STORE, { keyPath: "id" })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        // A brand new database starts out at the current schema version
+        db.createObjectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const byNewest = (a: Todo, b: Todo) => b.createdAt.getTime() - a.createdAt.getTime()
+
+// Stores one record per todo so edits only touch the records that changed
+export const createIndexedDbAdapter = (): StorageAdapter => {
+  let database: Promise<IDBDatabase> | null = null
+  const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null
+
+  const getDatabase = () => {
+    database ??= openDatabase()
+    return database
+  }
+
+  const replaceAll = async (records: Record<string, unknown>[]) => {
+    const db = await getDatabase()
+    const transaction = db.transaction([TODOS_STORE, META_STORE], "readwrite")
+    const store = transaction.objectStore(TODOS_STORE)
+    store.clear()
+    records.forEach((record) => store.put(record))
+    transaction.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY)
+    await completion(transaction)
+  }
+
+  // One-time import of the single-key payload written by older versions of the app
+  const migrateFromLocalStorage = async (): Promise<LoadResult | null> => {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+
+    const result = parseStoredTodos(raw)
+    await replaceAll(result.todos.map(toStoredTodo))
+    localStorage.removeItem(STORAGE_KEY)
+    return result
+  }
+
+  const readAll = async (): Promise<LoadResult> => {
+    const db = await getDatabase()
+    const transaction = db.transaction([TODOS_STORE, META_STORE], "readonly")
+    const [records, storedVersion] = await Promise.all([
+      promisify(transaction.objectStore(TODOS_STORE).getAll()),
+      promisify(transaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+    ])
+
+    let data: unknown[] = records
+    const version = typeof storedVersion === "number" ? storedVersion : SCHEMA_VERSION
+    if (version !== SCHEMA_VERSION) {
+      data = migratePayload({ version, data: records }).data as unknown[]
+      await replaceAll(data as Record<string, unknown>[])
+    }
+
+    const result = validateTodos(data)
+    result.todos.sort(byNewest)
+    return result
+  }
+
+  const notify = () => channel?.postMessage({ type: "changed" })
+
+  return {
+    async load() {
+      const migrated = await migrateFromLocalStorage()
+      const result = await readAll()
+
+      if (result.quarantined.length > 0) {
+        // Corrupt records move to the quarantine instead of failing every load
+        const db = await getDatabase()
+        const transaction = db.transaction(TODOS_STORE, "readwrite")
+        result.quarantined.forEach(({ record }) => {
+          const id = (record as { id?: IDBValidKey }).id
+          if (id !== undefined) transaction.objectStore(TODOS_STORE).delete(id)
+        })
+        await completion(transaction)
+      }
+
+      if (!migrated) return result
+      return {
+        ...result,
+        quarantined: [...migrated.quarantined, ...result.quarantined],
+        rekeyed: [...(migrated.rekeyed ?? []), ...(result.rekeyed ?? [])],
+      }
+    },
+
+    async save(todos) {
+      await replaceAll(todos.map(toStoredTodo))
+      notify()
+    },
+
+    async put(todo) {
+      const db = await getDatabase()
+      const transaction = db.transaction(TODOS_STORE, "readwrite")
+      transaction.objectStore(TODOS_STORE).put(toStoredTodo(todo))
+      await completion(transaction)
+      notify()
+    },
+
+    async delete(id) {
+      const db = await getDatabase()
+      const transaction = db.transaction(TODOS_STORE, "readwrite")
+      transaction.objectStore(TODOS_STORE).delete(id)
+      await completion(transaction)
+      notify()
+    },
+
+    subscribe(listener) {
+      if (!channel) return () => {}
+      const onMessage = () => {
+        readAll()
+          .then(({ todos }) => listener(todos))
+          .catch(() => {})
+      }
+      channel.addEventListener("message", onMessage)
+      return () => channel.removeEventListener("message", onMessage)
+    },
+
+    close() {
+      channel?.close()
+      database?.then((db) => db.close())
+    },
+  }
+}
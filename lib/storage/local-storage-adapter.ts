@@ -0,0 +1,54 @@
+import type { Todo } from "@/lib/todo"
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import { STORAGE_KEY, parseStoredTodos, serializeTodos } from "@/lib/storage/schema"
+
+// Keeps the whole list under a single key, so every write rewrites the envelope.
+// Used where IndexedDB is unavailable.
+export const createLocalStorageAdapter = (): StorageAdapter => {
+  let todos: Todo[] = []
+
+  const write = () => {
+    localStorage.setItem(STORAGE_KEY, serializeTodos(todos))
+  }
+
+  return {
+    async load() {
+      const raw = localStorage.getItem(STORAGE_KEY)
+      const result = raw ? parseStoredTodos(raw) : { todos: [], quarantined: [] }
+      todos = result.todos
+      return result
+    },
+
+    async save(next) {
+      todos = next
+      write()
+    },
+
+    async put(todo) {
+      const exists = todos.some((t) => t.id === todo.id)
+      todos = exists ? todos.map((t) => (t.id === todo.id ? todo : t)) : [todo, ...todos]
+      write()
+    },
+
+    async delete(id) {
+      todos = todos.filter((t) => t.id !== id)
+      write()
+    },
+
+    subscribe(listener) {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key !== STORAGE_KEY || !event.newValue) return
+        try {
+          todos = parseStoredTodos(event.newValue).todos
+          listener(todos)
+        } catch {
+          // A newer or corrupt payload from another tab is picked up on the next load
+        }
+      }
+      window.addEventListener("storage", onStorage)
+      return () => window.removeEventListener("storage", onStorage)
+    },
+
+    close() {},
+  }
+}
@@ -0,0 +1,179 @@
+import type { z } from "zod"
+import { todoSchema, type Todo } from "@/lib/todo"
+import { createId } from "@/lib/id"
+
+export const STORAGE_KEY = "todos"
+export const QUARANTINE_KEY = "todos-quarantine"
+
+// Bump this and append a migration whenever the stored shape changes
+export const SCHEMA_VERSION = 14
+
+export interface StoredPayload {
+  version: number
+  data: unknown
+}
+
+// A stored record that failed validation, kept verbatim so it can be recovered by hand
+export interface QuarantinedRecord {
+  record: unknown
+  reason: string
+  quarantinedAt: string
+}
+
+export interface LoadResult {
+  todos: Todo[]
+  quarantined: QuarantinedRecord[]
+  // Todos that shared an id with an earlier record and were given a new one
+  rekeyed?: { from: string; to: string }[]
+}
+
+type Migration = (data: unknown) => unknown
+
+const unrecognisedFormat = () => new Error("Stored todos are not in a recognised format")
+
+// Applies `change` to every object in a stored todo array; anything else is left for validation to quarantine
+const mapTodos = (data: unknown, change: (todo: Record<string, unknown>) => unknown) => {
+  if (!Array.isArray(data)) throw unrecognisedFormat()
+  return data.map((todo: unknown) =>
+    todo && typeof todo === "object" && !Array.isArray(todo) ? change(todo as Record<string, unknown>) : todo,
+  )
+}
+
+// migrations[n] upgrades the data of a version n payload to version n + 1
+const migrations: Migration[] = [
+  // v0 -> v1: bare todo arrays written before the envelope existed keep their shape
+  (data) => data,
+  // v1 -> v2: per-field timestamps for cross-tab merging; old fields count as set at creation
+  (data) => mapTodos(data, (todo) => ({ ...todo, fieldUpdatedAt: {} })),
+  // v2 -> v3: optional deletedAt for the trash; bumped so older versions refuse to show trashed todos as live
+  (data) => data,
+  // v3 -> v4: optional listId; existing todos stay in the inbox
+  (data) => data,
+  // v4 -> v5: optional parentId for subtasks; existing todos are top level
+  (data) => data,
+  // v5 -> v6: optional tags
+  (data) => data,
+  // v6 -> v7: optional repeat rule for recurring todos
+  (data) => data,
+  // v7 -> v8: optional reminder offsets
+  (data) => data,
+  // v8 -> v9: optional manual sort order; unordered todos keep their stored order
+  (data) => data,
+  // v9 -> v10: optional inProgress flag for the board; existing todos are still to do
+  (data) => data,
+  // v10 -> v11: optional start date and estimated duration for the timeline
+  (data) => data,
+  // v11 -> v12: completedAt for the dashboard; completed todos take it from when completion was last set,
+  // or from their creation when they were created completed
+  (data) =>
+    mapTodos(data, (todo) => {
+      if (!todo.completed) return todo
+      const stamps = todo.fieldUpdatedAt as Record<string, unknown> | undefined
+      const completedAt =
+        typeof stamps?.completed === "number" ? new Date(stamps.completed).toISOString() : todo.createdAt
+      return { ...todo, completedAt }
+    }),
+  // v12 -> v13: optional time entries for time tracking
+  (data) => data,
+  // v13 -> v14: optional "blocked by" links between todos
+  (data) => data,
+]
+
+export class StorageVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(
+      `Stored todos use schema version ${version}, but this app only understands up to version ${SCHEMA_VERSION}. ` +
+        "Please update the app to open this data.",
+    )
+    this.name = "StorageVersionError"
+  }
+}
+
+const toPayload = (parsed: unknown): StoredPayload => {
+  if (Array.isArray(parsed)) {
+    return { version: 0, data: parsed }
+  }
+  if (parsed && typeof parsed === "object" && typeof (parsed as StoredPayload).version === "number") {
+    return parsed as StoredPayload
+  }
+  throw unrecognisedFormat()
+}
+
+export const migratePayload = (payload: StoredPayload): StoredPayload => {
+  if (payload.version > SCHEMA_VERSION) {
+    throw new StorageVersionError(payload.version)
+  }
+
+  let { version, data } = payload
+  while (version < SCHEMA_VERSION) {
+    data = migrations[version](data)
+    version++
+  }
+  return { version, data }
+}
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => (issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message)).join("; ")
+
+export const validateTodos = (data: unknown[]): LoadResult => {
+  const result: LoadResult = { todos: [], quarantined: [] }
+  const quarantinedAt = new Date().toISOString()
+  for (const record of data) {
+    const parsed = todoSchema.safeParse(record)
+    if (parsed.success) {
+      result.todos.push(parsed.data)
+    } else {
+      result.quarantined.push({ record, reason: describeIssues(parsed.error), quarantinedAt })
+    }
+  }
+  return repairDuplicateIds(result)
+}
+
+// Keeps the first todo with each id and gives every later duplicate a fresh id, so no record is lost
+const repairDuplicateIds = (result: LoadResult): LoadResult => {
+  const seen = new Set<string>()
+  const rekeyed: { from: string; to: string }[] = []
+  const todos = result.todos.map((todo) => {
+    if (!seen.has(todo.id)) {
+      seen.add(todo.id)
+      return todo
+    }
+    const id = createId()
+    seen.add(id)
+    rekeyed.push({ from: todo.id, to: id })
+    return { ...todo, id }
+  })
+  return rekeyed.length > 0 ? { ...result, todos, rekeyed } : result
+}
+
+export const parseStoredTodos = (raw: string): LoadResult => {
+  const { data } = migratePayload(toPayload(JSON.parse(raw)))
+  if (!Array.isArray(data)) {
+    throw unrecognisedFormat()
+  }
+  return validateTodos(data)
+}
+
+export const loadQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const raw = localStorage.getItem(QUARANTINE_KEY)
+    return raw ? JSON.parse(raw) : []
+  } catch {
+    return []
+  }
+}
+
+export const addToQuarantine = (records: QuarantinedRecord[]) => {
+  const existing = loadQuarantine()
+  const seen = new Set(existing.map((entry) => JSON.stringify(entry.record)))
+  const fresh = records.filter((entry) => !seen.has(JSON.stringify(entry.record)))
+  localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...fresh]))
+}
+
+// The JSON-safe shape a todo is stored in, with dates as ISO strings
+export const toStoredTodo = (todo: Todo): Record<string, unknown> => JSON.parse(JSON.stringify(todo))
+
+export const serializeTodos = (todos: Todo[]): string => {
+  const payload: StoredPayload = { version: SCHEMA_VERSION, data: todos }
+  return JSON.stringify(payload)
+}
@@ -0,0 +1,132 @@
+import { blockersOf } from "@/lib/dependencies"
+import { updateTodo, type Todo } from "@/lib/todo"
+
+export interface TreeRow {
+  todo: Todo
+  depth: number
+  hasChildren: boolean
+}
+
+export interface Progress {
+  done: number
+  total: number
+}
+
+// Children by parent id, oldest first like a checklist
+export const childrenByParent = (todos: Todo[]) => {
+  const ids = new Set(todos.map((todo) => todo.id))
+  const children = new Map<string, Todo[]>()
+  for (const todo of todos) {
+    if (!todo.parentId || !ids.has(todo.parentId)) continue
+    children.set(todo.parentId, [...(children.get(todo.parentId) ?? []), todo])
+  }
+  children.forEach((kids) => kids.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()))
+  return children
+}
+
+// Todos shown at the top level: those without a parent in `todos`, plus the smallest id of
+// any parentId cycle so its members stay reachable
+const rootsOf = (todos: Todo[]) => {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]))
+  return todos.filter((todo) => {
+    const path = [todo.id]
+    let current = todo.parentId ? byId.get(todo.parentId) : undefined
+    if (!current) return true
+
+    while (current) {
+      if (current.id === todo.id) return path.every((id) => todo.id <= id)
+      if (path.includes(current.id)) return false
+      path.push(current.id)
+      current = current.parentId ? byId.get(current.parentId) : undefined
+    }
+    return false
+  })
+}
+
+export const descendantIds = (todos: Todo[], id: string) => {
+  const children = childrenByParent(todos)
+  const result = new Set<string>()
+  const visit = (parentId: string) => {
+    for (const child of children.get(parentId) ?? []) {
+      if (result.has(child.id) || child.id === id) continue
+      result.add(child.id)
+      visit(child.id)
+    }
+  }
+  visit(id)
+  return result
+}
+
+export const progressOf = (todos: Todo[], id: string): Progress => {
+  const descendants = descendantIds(todos, id)
+  const done = todos.filter((todo) => descendants.has(todo.id) && todo.completed).length
+  return { done, total: descendants.size }
+}
+
+/**
+ * Flattens the hierarchy into display order, with siblings sorted by `compare` if given. A todo
+ * is shown when it matches `visible` or one of its descendants does, so filtered children keep
+ * their parents for context.
+ */
+export const flattenTree = (
+  todos: Todo[],
+  visible: (todo: Todo) => boolean,
+  collapsed: Set<string>,
+  compare?: (a: Todo, b: Todo) => number,
+) => {
+  const children = childrenByParent(todos)
+  if (compare) children.forEach((kids) => kids.sort(compare))
+  const rows: TreeRow[] = []
+  const seen = new Set<string>()
+
+  const matches = (todo: Todo, path: Set<string>): boolean =>
+    visible(todo) ||
+    (children.get(todo.id) ?? []).some((child) => !path.has(child.id) && matches(child, new Set(path).add(child.id)))
+
+  const visit = (todo: Todo, depth: number) => {
+    if (seen.has(todo.id) || !matches(todo, new Set([todo.id]))) return
+    seen.add(todo.id)
+    const kids = children.get(todo.id) ?? []
+    rows.push({ todo, depth, hasChildren: kids.length > 0 })
+    if (!collapsed.has(todo.id)) kids.forEach((child) => visit(child, depth + 1))
+  }
+
+  const roots = rootsOf(todos)
+  if (compare) roots.sort(compare)
+  roots.forEach((todo) => visit(todo, 0))
+  return rows
+}
+
+// Tasks with subtasks only roll up their children, so counters count the tasks without any
+export const leafTodos = (todos: Todo[]) => {
+  const children = childrenByParent(todos)
+  return todos.filter((todo) => !children.has(todo.id))
+}
+
+/**
+ * Walks up from a changed todo, completing each parent whose children are now all done and
+ * reopening any parent that has an unfinished child. A parent still waiting on blockers is left
+ * open, as completing it needs an explicit override.
+ */
+export const syncParentCompletion = (todos: Todo[], changedId: string): Todo[] => {
+  let result = todos
+  const visited = new Set<string>()
+  let current = result.find((todo) => todo.id === changedId)
+
+  while (current?.parentId && !visited.has(current.parentId)) {
+    visited.add(current.parentId)
+    const parentId = current.parentId
+    const parent = result.find((todo) => todo.id === parentId)
+    if (!parent) break
+
+    const siblings = result.filter((todo) => todo.parentId === parentId && !todo.deletedAt)
+    // A parent whose last subtask went to the trash keeps the state it had
+    if (siblings.length === 0) break
+    const completed = siblings.every((todo) => todo.completed)
+    if (parent.completed !== completed && !(completed && blockersOf(parent, result).length > 0)) {
+      result = result.map((todo) => (todo.id === parentId ? updateTodo(todo, { completed }) : todo))
+    }
+    current = result.find((todo) => todo.id === parentId)
+  }
+  return result
+}
@@ -0,0 +1,63 @@
+import type { Todo, TodoField } from "@/lib/todo"
+
+const SKIPPED_FIELDS = new Set(["id", "createdAt", "fieldUpdatedAt"])
+
+// Fields never touched since creation count as written at createdAt
+const stampOf = (todo: Todo, field: TodoField) => todo.fieldUpdatedAt[field] ?? todo.createdAt.getTime()
+
+// Breaks timestamp ties the same way in every tab so they all settle on one value
+const serialize = (value: unknown) => JSON.stringify(value) ?? ""
+
+/**
+ * Merges two versions of the same todo field by field, keeping whichever side wrote each
+ * field last. Returns one of the inputs unchanged when it already wins every field.
+ */
+export const mergeTodo = (local: Todo, remote: Todo): Todo => {
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)])
+  const merged: Record<string, unknown> = { ...remote, fieldUpdatedAt: { ...remote.fieldUpdatedAt } }
+  let takesLocal = false
+  let takesRemote = false
+
+  for (const key of fields) {
+    if (SKIPPED_FIELDS.has(key)) continue
+    const field = key as TodoField
+    const localValue = serialize(local[field])
+    const remoteValue = serialize(remote[field])
+    if (localValue === remoteValue) continue
+
+    const localStamp = stampOf(local, field)
+    const remoteStamp = stampOf(remote, field)
+    const localWins = localStamp > remoteStamp || (localStamp === remoteStamp && localValue > remoteValue)
+    if (localWins) {
+      merged[field] = local[field]
+      ;(merged.fieldUpdatedAt as Record<string, number>)[field] = localStamp
+      takesLocal = true
+    } else {
+      takesRemote = true
+    }
+  }
+
+  if (!takesLocal) return remote
+  if (!takesRemote) return local
+  return merged as unknown as Todo
+}
+
+/**
+ * Three-way merge of the list this tab holds with a list another tab wrote, where `base` is
+ * what storage held before the remote write. Todos missing from `remote` but present in
+ * `base` were deleted elsewhere; todos missing from `base` were added by one side.
+ */
+export const mergeTodoLists = (base: Todo[], local: Todo[], remote: Todo[]): Todo[] => {
+  const baseIds = new Set(base.map((todo) => todo.id))
+  const localById = new Map(local.map((todo) => [todo.id, todo]))
+  const remoteById = new Map(remote.map((todo) => [todo.id, todo]))
+
+  // Present in base but not locally means this tab deleted it and has not saved yet
+  const added = remote.filter((todo) => !localById.has(todo.id) && !baseIds.has(todo.id))
+  const kept = local.flatMap((todo) => {
+    const remoteTodo = remoteById.get(todo.id)
+    if (remoteTodo) return [mergeTodo(todo, remoteTodo)]
+    return baseIds.has(todo.id) ? [] : [todo]
+  })
+  return [...added, ...kept]
+}
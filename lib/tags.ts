@@ -0,0 +1,67 @@
+import { z } from "zod"
+
+import { listColors, type ListColor } from "@/lib/lists"
+import { updateTodo, type Todo } from "@/lib/todo"
+
+// Tags are stored on todos by name; only their colours live in settings
+export const tagColorsSchema = z.record(z.enum(listColors))
+
+// Lower-case, without a leading # and with spaces turned into dashes, so "#Home Office" and
+// "home-office" are the same tag
+export const normalizeTag = (name: string) =>
+  name
+    .trim()
+    .replace(/^#+/, "")
+    .replace(/\s+/g, "-")
+    .toLowerCase()
+
+// Empty tag lists are stored as unset so todos without tags compare equal
+export const normalizeTags = (tags: string[]) => {
+  const unique = Array.from(new Set(tags.map(normalizeTag).filter(Boolean)))
+  return unique.length > 0 ? unique : undefined
+}
+
+// Pulls "#tag" words out of a task title
+export const extractTags = (text: string) => {
+  const tags: string[] = []
+  const rest = text.replace(/(^|\s)#([^\s#]+)/g, (_, space: string, tag: string) => {
+    tags.push(tag)
+    return space
+  })
+  return { text: rest.replace(/\s+/g, " ").trim(), tags }
+}
+
+// Tag names with the number of todos using them, most used first
+export const tagCounts = (todos: Todo[]) => {
+  const counts = new Map<string, number>()
+  for (const todo of todos) {
+    for (const tag of todo.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+  )
+}
+
+// Tags without a chosen colour still get a stable one derived from their name
+export const tagColor = (name: string, colors: Record<string, ListColor>): ListColor => {
+  if (colors[name]) return colors[name]
+  let hash = 0
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return listColors[Math.abs(hash) % listColors.length]
+}
+
+// Renaming onto a tag that already exists merges the two
+export const renameTag = (todos: Todo[], from: string, to: string) =>
+  todos.map((todo) =>
+    todo.tags?.includes(from)
+      ? updateTodo(todo, { tags: normalizeTags(todo.tags.map((tag) => (tag === from ? to : tag))) })
+      : todo,
+  )
+
+export const removeTag = (todos: Todo[], name: string) =>
+  todos.map((todo) =>
+    todo.tags?.includes(name) ? updateTodo(todo, { tags: normalizeTags(todo.tags.filter((tag) => tag !== name)) }) : todo,
+  )
+
+// A todo matches when it carries every selected tag
+export const hasTags = (todo: Todo, selected: string[]) => selected.every((tag) => todo.tags?.includes(tag))
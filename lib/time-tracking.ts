@@ -0,0 +1,74 @@
+import { addDays, format, min, startOfDay } from "date-fns"
+
+import { createId } from "@/lib/id"
+import { updateTodo, type TimeEntry, type Todo } from "@/lib/todo"
+
+export const runningEntry = (todo: Todo) => todo.timeEntries?.find((entry) => !entry.end)
+
+// At most one timer runs at a time, see startTimer
+export const runningTodo = (todos: Todo[]) => todos.find((todo) => runningEntry(todo)) ?? null
+
+// Milliseconds of all the todo's entries, a running one counted up to now
+export const trackedTime = (todo: Todo, now = new Date()) =>
+  (todo.timeEntries ?? []).reduce((sum, entry) => sum + (entry.end ?? now).getTime() - entry.start.getTime(), 0)
+
+const stopEntries = (entries: TimeEntry[], now: Date) =>
+  entries.map((entry) => (entry.end ? entry : { ...entry, end: now }))
+
+export const stopTimer = (todos: Todo[], now = new Date()): Todo[] =>
+  todos.map((todo) =>
+    runningEntry(todo) ? updateTodo(todo, { timeEntries: stopEntries(todo.timeEntries!, now) }, now.getTime()) : todo,
+  )
+
+// Starts a timer on the todo, stopping any other that is running
+export const startTimer = (todos: Todo[], id: string, now = new Date()): Todo[] =>
+  stopTimer(todos, now).map((todo) =>
+    todo.id === id
+      ? updateTodo(
+          todo,
+          { timeEntries: [...(todo.timeEntries ?? []), { id: createId(now.getTime()), start: now }] },
+          now.getTime(),
+        )
+      : todo,
+  )
+
+// Milliseconds as "1:05:09"
+export const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000))
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`
+}
+
+export interface TimesheetRow {
+  // yyyy-MM-dd, local time
+  day: string
+  task: string
+  minutes: number
+}
+
+// Tracked time by day and task, oldest day first; entries running past midnight count towards each day they cover
+export const timesheet = (todos: Todo[], now = new Date()): TimesheetRow[] => {
+  const rows = new Map<string, TimesheetRow>()
+  for (const todo of todos) {
+    for (const entry of todo.timeEntries ?? []) {
+      const end = entry.end ?? now
+      for (let from = entry.start; from < end; from = startOfDay(addDays(from, 1))) {
+        const to = min([startOfDay(addDays(from, 1)), end])
+        const day = format(from, "yyyy-MM-dd")
+        const key = `${day}\n${todo.id}`
+        const row = rows.get(key) ?? { day, task: todo.text, minutes: 0 }
+        rows.set(key, { ...row, minutes: row.minutes + (to.getTime() - from.getTime()) / 60000 })
+      }
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.day.localeCompare(b.day) || a.task.localeCompare(b.task))
+}
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+// Hours are rounded to hundredths, as billed
+export const timesheetCsv = (rows: TimesheetRow[]) =>
+  [
+    "Date,Task,Hours",
+    ...rows.map((row) => [row.day, csvField(row.task), (row.minutes / 60).toFixed(2)].join(",")),
+  ].join("\n") + "\n"
@@ -0,0 +1,104 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  differenceInMinutes,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+
+import type { Todo, TodoChanges } from "@/lib/todo"
+
+export const zoomLevels = ["day", "week", "month"] as const
+
+export type Zoom = (typeof zoomLevels)[number]
+
+export const pixelsPerDay: Record<Zoom, number> = { day: 48, week: 16, month: 4 }
+
+export interface Bar {
+  start: Date
+  end: Date
+  // Only one end is known, so the todo is drawn as a point
+  milestone: boolean
+}
+
+/**
+ * Where a todo sits on the timeline: from its start date to its deadline, with the duration
+ * filling in whichever end is missing. Todos with neither date are not shown.
+ */
+export const barOf = (todo: Todo): Bar | null => {
+  const { startDate, deadline, duration } = todo
+  const start = startDate ?? (deadline && duration ? addMinutes(deadline, -duration) : undefined)
+  const end = deadline ?? (startDate && duration ? addMinutes(startDate, duration) : undefined)
+  if (start && end) return { start, end, milestone: false }
+  const at = start ?? end
+  return at ? { start: at, end: at, milestone: true } : null
+}
+
+export type BarEdge = "start" | "end" | "both"
+
+/**
+ * Changes that move a bar, or one of its ends, by whole days. An end that only follows from
+ * the duration changes the duration; a milestone dragged open gains the missing date.
+ */
+export const dragBar = (todo: Todo, edge: BarEdge, days: number): TodoChanges => {
+  const bar = barOf(todo)
+  if (!bar || days === 0) return {}
+  if (edge === "both") {
+    return {
+      ...(todo.startDate && { startDate: addDays(todo.startDate, days) }),
+      ...(todo.deadline && { deadline: addDays(todo.deadline, days) }),
+    }
+  }
+
+  if (edge === "start") {
+    const start = new Date(Math.min(addDays(bar.start, days).getTime(), bar.end.getTime()))
+    if (todo.startDate || !todo.duration) return { startDate: start }
+    return { duration: differenceInMinutes(bar.end, start) || undefined }
+  }
+
+  const end = new Date(Math.max(addDays(bar.end, days).getTime(), bar.start.getTime()))
+  if (todo.deadline || !todo.duration) return { deadline: end }
+  return { duration: differenceInMinutes(end, bar.start) || undefined }
+}
+
+// Days, fractional ones included, from the start of the range
+export const dayOffset = (date: Date, rangeStart: Date) =>
+  (date.getTime() - rangeStart.getTime()) / (24 * 60 * 60 * 1000)
+
+// The span covering every bar and today, padded and aligned to the zoom level's ticks
+export const timelineRange = (bars: Bar[], zoom: Zoom, now = new Date()) => {
+  const times = [now, ...bars.flatMap((bar) => [bar.start, bar.end])].map((date) => date.getTime())
+  const [first, last] = [new Date(Math.min(...times)), new Date(Math.max(...times))]
+  switch (zoom) {
+    case "day":
+      return { start: startOfDay(addDays(first, -2)), end: startOfDay(addDays(last, 3)) }
+    case "week":
+      return {
+        start: startOfWeek(addDays(first, -7), { weekStartsOn: 1 }),
+        end: startOfWeek(addDays(last, 14), { weekStartsOn: 1 }),
+      }
+    case "month":
+      return { start: startOfMonth(addMonths(first, -1)), end: startOfMonth(addMonths(last, 2)) }
+  }
+}
+
+// Labelled gridlines: days, Monday-based weeks or months
+export const timelineTicks = ({ start, end }: { start: Date; end: Date }, zoom: Zoom) => {
+  switch (zoom) {
+    case "day":
+      return eachDayOfInterval({ start, end }).map((date) => ({ date, label: format(date, "EEE d") }))
+    case "week":
+      return eachWeekOfInterval({ start, end }, { weekStartsOn: 1 }).map((date) => ({
+        date,
+        label: format(date, "MMM d"),
+      }))
+    case "month":
+      return eachMonthOfInterval({ start, end }).map((date) => ({ date, label: format(date, "MMM yyyy") }))
+  }
+}
@@ -0,0 +1,209 @@
+import { z } from "zod"
+
+import { repeatRuleSchema, type RepeatRule } from "@/lib/repeat-rule"
+
+export type Priority = "low" | "medium" | "high"
+
+export interface Todo {
+  id: string
+  text: string
+  description?: string
+  completed: boolean
+  // Set while an unfinished todo is being worked on, the middle column of the board
+  inProgress?: boolean
+  // When the todo was completed; cleared when it is reopened
+  completedAt?: Date
+  createdAt: Date
+  priority: Priority
+  deadline?: Date
+  // When work is planned to begin, shown on the timeline
+  startDate?: Date
+  // Estimated minutes of work
+  duration?: number
+  // Minutes before the deadline to send a reminder at, 0 being the deadline itself
+  reminders?: number[]
+  // Set on subtasks to the todo they belong to
+  parentId?: string
+  // The list the todo belongs to; unset for the inbox
+  listId?: string
+  // Normalized tag names, see lib/tags; unset when the todo has none
+  tags?: string[]
+  // Set on recurring todos; completing one creates the next occurrence, see lib/recurrence
+  repeat?: Recurrence
+  // Position among its siblings in the manual sort order, lowest first; unset until they are reordered
+  order?: number
+  // Time worked on the todo, oldest first; see lib/time-tracking
+  timeEntries?: TimeEntry[]
+  // Ids of the todos that must be done before this one can be completed; see lib/dependencies
+  blockedBy?: string[]
+  // Set while the todo sits in the trash
+  deletedAt?: Date
+  // When each field was last changed (ms since epoch), used to merge edits from other tabs
+  fieldUpdatedAt: FieldTimestamps
+}
+
+// Fields an occurrence of a recurring todo can override without changing the rest of the series
+export const seriesFields = ["text", "description", "priority", "deadline", "listId", "tags"] as const
+
+export type SeriesField = (typeof seriesFields)[number]
+
+export interface Recurrence {
+  rule: RepeatRule
+  // 1-based position of this todo in its series, counted against rule.count
+  occurrence: number
+  // Values the following occurrences go back to where this one was edited on its own; null for unset
+  series?: { [K in SeriesField]?: Todo[K] | null }
+}
+
+export interface TimeEntry {
+  id: string
+  start: Date
+  // Unset while the timer is running
+  end?: Date
+}
+
+// Fields that can change after creation and are merged individually
+export type TodoField = Exclude<keyof Todo, "id" | "createdAt" | "fieldUpdatedAt">
+export type FieldTimestamps = Partial<Record<TodoField, number>>
+export type TodoChanges = Partial<Pick<Todo, TodoField>>
+
+export const priorities = ["low", "medium", "high"] as const
+
+const timeEntrySchema = z.object({
+  id: z.string().min(1),
+  start: z.coerce.date(),
+  end: z.coerce.date().optional(),
+})
+
+const recurrenceSchema = z.object({
+  rule: repeatRuleSchema,
+  occurrence: z.number().int().positive().default(1),
+  series: z
+    .object({
+      text: z.string(),
+      description: z.string().nullable(),
+      priority: z.enum(priorities),
+      deadline: z.coerce.date().nullable(),
+      listId: z.string().min(1).nullable(),
+      tags: z.array(z.string().min(1)).nullable(),
+    })
+    .partial()
+    .optional(),
+})
+
+// Validates a todo as it comes out of storage, where dates are ISO strings
+export const todoSchema: z.ZodType<Todo, z.ZodTypeDef, unknown> = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  description: z.string().optional(),
+  completed: z.boolean(),
+  completedAt: z.coerce.date().optional(),
+  inProgress: z.boolean().optional(),
+  createdAt: z.coerce.date(),
+  priority: z.enum(priorities),
+  deadline: z.coerce.date().optional(),
+  startDate: z.coerce.date().optional(),
+  duration: z.number().int().positive().optional(),
+  reminders: z.array(z.number().int().nonnegative()).optional(),
+  parentId: z.string().min(1).optional(),
+  listId: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  repeat: recurrenceSchema.optional(),
+  order: z.number().optional(),
+  timeEntries: z.array(timeEntrySchema).optional(),
+  blockedBy: z.array(z.string().min(1)).optional(),
+  deletedAt: z.coerce.date().optional(),
+  fieldUpdatedAt: z.record(z.number()).default({}),
+})
+
+// Applies changes to a todo and records when each changed field was touched. Fields whose
+// value does not actually change are ignored, and the same object is returned if none do.
+// Completing or reopening a todo also sets or clears completedAt, whichever path it takes.
+export const updateTodo = (todo: Todo, changes: TodoChanges, now = Date.now()): Todo => {
+  if ("completed" in changes && !("completedAt" in changes) && changes.completed !== todo.completed) {
+    changes = { ...changes, completedAt: changes.completed ? new Date(now) : undefined }
+  }
+  const changed = (Object.keys(changes) as TodoField[]).filter(
+    (field) => JSON.stringify(changes[field]) !== JSON.stringify(todo[field]),
+  )
+  if (changed.length === 0) return todo
+
+  const next: Todo = { ...todo, fieldUpdatedAt: { ...todo.fieldUpdatedAt } }
+  for (const field of changed) {
+    ;(next as Record<TodoField, unknown>)[field] = changes[field]
+    next.fieldUpdatedAt[field] = now
+  }
+  return next
+}
+
+// Fields a client may set when creating a todo; the id and createdAt are assigned by the server
+export const todoInputSchema = z.object({
+  text: z.string().trim().min(1, "Text is required"),
+  description: z.string().trim().optional(),
+  completed: z.boolean().default(false),
+  inProgress: z.boolean().optional(),
+  priority: z.enum(priorities).default("medium"),
+  deadline: z.coerce.date().optional(),
+  startDate: z.coerce.date().optional(),
+  duration: z.number().int().positive().optional(),
+  reminders: z.array(z.number().int().nonnegative()).optional(),
+  parentId: z.string().min(1).optional(),
+  listId: z.string().min(1).optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+  repeat: recurrenceSchema.optional(),
+  order: z.number().optional(),
+  timeEntries: z.array(timeEntrySchema).optional(),
+  blockedBy: z.array(z.string().min(1)).optional(),
+})
+
+// null clears an optional field
+export const todoUpdateSchema = todoInputSchema
+  .extend({
+    description: z.string().trim().nullable(),
+    deadline: z.null().or(z.coerce.date()),
+    startDate: z.null().or(z.coerce.date()),
+    duration: z.number().int().positive().nullable(),
+    reminders: z.array(z.number().int().nonnegative()).nullable(),
+    parentId: z.string().min(1).nullable(),
+    listId: z.string().min(1).nullable(),
+    tags: z.array(z.string().trim().min(1)).nullable(),
+    repeat: recurrenceSchema.nullable(),
+    order: z.number().nullable(),
+    timeEntries: z.array(timeEntrySchema).nullable(),
+    blockedBy: z.array(z.string().min(1)).nullable(),
+  })
+  .partial()
+  .strict()
+
+export const isOverdue = (todo: Todo, now = new Date()) => {
+  if (!todo.deadline || todo.completed) return false
+  return now > todo.deadline
+}
+
+export const formatDeadline = (date: Date) => {
+  const now = new Date()
+  const isToday = date.toDateString() === now.toDateString()
+  const isTomorrow = date.toDateString() === new Date(now.getTime() + 24 * 60 * 60 * 1000).toDateString()
+
+  if (isToday) {
+    return `Today at ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+  } else if (isTomorrow) {
+    return `Tomorrow at ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+  } else {
+    return date.toLocaleString([], {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  }
+}
+
+// Minutes as "1h 30m", "2h" or "45m"
+export const formatDuration = (minutes: number) => {
+  const [hours, rest] = [Math.floor(minutes / 60), Math.round(minutes % 60)]
+  return [hours && `${hours}h`, (rest || !hours) && `${rest}m`].filter(Boolean).join(" ")
+}
+
+export type TodoInput = z.infer<typeof todoInputSchema>
+export type TodoUpdate = z.infer<typeof todoUpdateSchema>
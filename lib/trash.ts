@@ -0,0 +1,15 @@
+import type { Todo } from "@/lib/todo"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const isTrashed = (todo: Todo) => todo.deletedAt !== undefined
+
+export const purgeDate = (todo: Todo, retentionDays: number | null) =>
+  todo.deletedAt && retentionDays !== null ? new Date(todo.deletedAt.getTime() + retentionDays * DAY_MS) : null
+
+// Todos whose time in the trash has run out
+export const expiredTrash = (todos: Todo[], retentionDays: number | null, now = new Date()) =>
+  todos.filter((todo) => {
+    const purgeAt = purgeDate(todo, retentionDays)
+    return purgeAt !== null && purgeAt <= now
+  })
@@ -0,0 +1,19 @@
+import { z } from "zod"
+
+// A named filter query, shown as a tab next to All / Active / Completed
+export interface SavedView {
+  id: string
+  name: string
+  query: string
+}
+
+export const savedViewSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  query: z.string(),
+})
+
+// Tab values of saved views, kept apart from the built-in filters
+export const VIEW_PREFIX = "view:"
+
+export const viewTab = (id: string) => `${VIEW_PREFIX}${id}` as const
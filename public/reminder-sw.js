@@ -0,0 +1,25 @@
+// Only used for reminder notifications: it lets them carry snooze actions and forwards clicks to the app
+
+self.addEventListener("install", () => self.skipWaiting())
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()))
+
+self.addEventListener("notificationclick", (event) => {
+  const { key, todoId } = event.notification.data || {}
+  event.notification.close()
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const message = event.action.startsWith("snooze-")
+        ? { type: "reminder-snooze", key, minutes: Number(event.action.slice("snooze-".length)) }
+        : { type: "reminder-open", todoId }
+
+      if (clients.length === 0) {
+        return self.clients.openWindow("/")
+      }
+      clients.forEach((client) => client.postMessage(message))
+      if (message.type === "reminder-open" && "focus" in clients[0]) {
+        return clients[0].focus()
+      }
+    }),
+  )
+})
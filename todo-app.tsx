@@ -1,527 +1,1313 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Checkbox } from "@/components/ui/checkbox"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Plus, Trash2, Edit3, Check, X, Calendar, Star, Eye } from "lucide-react"
-
-interface Todo {
-  id: string
-  text: string
-  description?: string
-  completed: boolean
-  createdAt: Date
-  priority: "low" | "medium" | "high"
-  deadline?: Date
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ToastAction } from "@/components/ui/toast"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Plus, Edit3, X, Calendar, AlertTriangle, Undo2, Redo2, Settings2, Tags, Bookmark, Trash2, LayoutList, SquareKanban, CalendarDays, GanttChart, BarChart3, Play, Square, FileDown, DatabaseBackup } from "lucide-react"
+import {
+  formatDeadline,
+  formatDuration,
+  isOverdue,
+  updateTodo,
+  type TimeEntry,
+  type Todo,
+  type TodoChanges,
+} from "@/lib/todo"
+import { createId } from "@/lib/id"
+import type { StorageBackend } from "@/lib/storage/adapter"
+import { useTodoStorage } from "@/hooks/use-todo-storage"
+import { useTodoHistory } from "@/hooks/use-todo-history"
+import { useSettings } from "@/hooks/use-settings"
+import { useReminders } from "@/hooks/use-reminders"
+import { useNow } from "@/hooks/use-now"
+import { expiredTrash, isTrashed } from "@/lib/trash"
+import { TrashView } from "@/components/trash-view"
+import { TodoEditor } from "@/components/todo-editor"
+import { ListSidebar } from "@/components/list-sidebar"
+import { ListIcon } from "@/components/list-icon"
+import { TodoItem } from "@/components/todo-item"
+import { ListBadge, RepeatBadge, TagBadge, getPriorityColor, getPriorityIcon } from "@/components/todo-badges"
+import { TagInput } from "@/components/tag-input"
+import { TagManager } from "@/components/tag-manager"
+import { Dashboard } from "@/components/dashboard"
+import { BackupDialog } from "@/components/backup-dialog"
+import { ElapsedTime, TimerIndicator } from "@/components/time-tracking"
+import { TimeEntries } from "@/components/time-entries"
+import { TaskDependencies } from "@/components/task-dependencies"
+import { ReminderInput } from "@/components/reminder-input"
+import { ReminderPermission } from "@/components/reminder-permission"
+import { QuickAddPreview } from "@/components/quick-add-preview"
+import { Highlight } from "@/components/highlight"
+import { QueryInput } from "@/components/query-input"
+import { SortControls } from "@/components/sort-controls"
+import { TodoBoard } from "@/components/todo-board"
+import { CalendarView } from "@/components/calendar-view"
+import { TimelineView } from "@/components/timeline-view"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { parseQuickAdd, type QuickAddPart } from "@/lib/quick-add"
+import { searchTodo, type SearchMatch } from "@/lib/search"
+import { safeParseQuery, type ParsedQuery } from "@/lib/query"
+import { VIEW_PREFIX, viewTab } from "@/lib/views"
+import { compareTodos, defaultSortOrder, moveTodo, orderForNew, type SortOrder } from "@/lib/sort"
+import { boardColumns, boardGroupings, moveToColumn, wipLimitKey, type BoardGrouping } from "@/lib/board"
+import { moveToDay } from "@/lib/calendar"
+import { barOf } from "@/lib/timeline"
+import { runningTodo, startTimer, stopTimer, timesheet, timesheetCsv } from "@/lib/time-tracking"
+import { downloadFile } from "@/lib/download"
+import type { Backup, ImportPlan } from "@/lib/backup"
+import { addToQuarantine } from "@/lib/storage/schema"
+import { BlockedError, DependencyCycleError, blockersOf, setBlockers } from "@/lib/dependencies"
+import { format, set, startOfDay } from "date-fns"
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar"
+import { ALL_LISTS, INBOX, isInList, listOf, type ListColor, type TodoList } from "@/lib/lists"
+import { hasTags, normalizeTags, removeTag, renameTag, tagColor, tagCounts } from "@/lib/tags"
+import { changesForOccurrence, skipOccurrence, toggleCompletion, upcomingDate } from "@/lib/recurrence"
+import { descendantIds, flattenTree, leafTodos, progressOf, syncParentCompletion } from "@/lib/subtasks"
+import { toast } from "@/hooks/use-toast"
+
+interface TodoAppProps {
+  backend?: StorageBackend
 }
 
-export default function TodoApp() {
-  const [todos, setTodos] = useState<Todo[]>([])
+export default function TodoApp({ backend }: TodoAppProps) {
+  const { todos, setTodos, loaded, error: storageError } = useTodoStorage(backend)
+  const { settings, updateSettings } = useSettings()
   const [newTodo, setNewTodo] = useState("")
+  // Parts of the quick-add title the user chose to keep as plain text
+  const [ignoredParts, setIgnoredParts] = useState<QuickAddPart[]>([])
   const [editingId, setEditingId] = useState<string | null>(null)
-  const [editText, setEditText] = useState("")
-  const [filter, setFilter] = useState<"all" | "active" | "completed">("all")
+  // A built-in tab, or a saved view's tab
+  const [filter, setFilter] = useState<"all" | "active" | "completed" | "trash" | `${typeof VIEW_PREFIX}${string}`>("all")
   const [priority, setPriority] = useState<"low" | "medium" | "high">("medium")
   const [deadline, setDeadline] = useState<string>("")
   const [description, setDescription] = useState("")
-  const [selectedTodo, setSelectedTodo] = useState<Todo | null>(null)
+  const [newTags, setNewTags] = useState<string[]>([])
+  const [newReminders, setNewReminders] = useState<number[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
   const [showTaskDetail, setShowTaskDetail] = useState(false)
+  const [editingDetail, setEditingDetail] = useState(false)
+  const [selectedList, setSelectedList] = useState<string>(ALL_LISTS)
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set())
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [tagManagerOpen, setTagManagerOpen] = useState(false)
+  const [dashboardOpen, setDashboardOpen] = useState(false)
+  const [backupOpen, setBackupOpen] = useState(false)
+  const [query, setQuery] = useState("")
+  const searchRef = useRef<HTMLInputElement>(null)
+  const { commit, undo, redo, undoLabel, redoLabel } = useTodoHistory(todos, setTodos)
+  const { permission, requestPermission } = useReminders(todos, loaded, (id) => openTask(id))
+  // Re-render every minute so overdue badges appear without waiting for another change
+  const now = useNow()
+
+  // Ctrl+Z / Ctrl+Shift+Z, leaving text fields to their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return
+      const target = e.target as HTMLElement
+      if (target.closest("input, textarea, [contenteditable='true']")) return
+      e.preventDefault()
+      if (e.shiftKey) redo()
+      else undo()
+    }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [undo, redo])
 
-  // Load todos from localStorage on mount
+  // "/" jumps to the search box from anywhere outside a text field
   useEffect(() => {
-    const savedTodos = localStorage.getItem("todos")
-    if (savedTodos) {
-      const parsedTodos = JSON.parse(savedTodos).map((todo: any) => ({
-        ...todo,
-        createdAt: new Date(todo.createdAt),
-        deadline: todo.deadline ? new Date(todo.deadline) : undefined,
-      }))
-      setTodos(parsedTodos)
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "/" || e.ctrlKey || e.metaKey || e.altKey) return
+      const target = e.target as HTMLElement
+      if (target.closest("input, textarea, [contenteditable='true']")) return
+      e.preventDefault()
+      searchRef.current?.focus()
     }
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
   }, [])
 
-  // Save todos to localStorage whenever todos change
+  // Fall back to All when the open view is deleted, e.g. from another tab
   useEffect(() => {
-    localStorage.setItem("todos", JSON.stringify(todos))
-  }, [todos])
+    if (filter.startsWith(VIEW_PREFIX) && !settings.views.some((view) => viewTab(view.id) === filter)) setFilter("all")
+  }, [filter, settings.views])
 
+  // Permanently remove trashed todos past the retention period, now and then hourly
+  useEffect(() => {
+    if (!loaded) return
+    const purge = () =>
+      setTodos((current) => {
+        const expired = new Set(expiredTrash(current, settings.trashRetentionDays))
+        return expired.size > 0 ? current.filter((todo) => !expired.has(todo)) : current
+      })
+    purge()
+    const interval = setInterval(purge, 60 * 60 * 1000)
+    return () => clearInterval(interval)
+  }, [loaded, settings.trashRetentionDays, setTodos])
+
+  // What the title says wins over the priority and deadline controls; its tags are added to the chosen ones
   const addTodo = () => {
     if (newTodo.trim() !== "") {
+      const parsed = parseQuickAdd(newTodo, new Date(), ignoredParts)
+      const due = parsed.deadline ?? (deadline ? new Date(deadline) : undefined)
       const todo: Todo = {
-        id: Date.now().toString(),
-        text: newTodo.trim(),
+        id: createId(),
+        text: parsed.text || newTodo.trim(),
         description: description.trim() || undefined,
         completed: false,
         createdAt: new Date(),
-        priority,
-        deadline: deadline ? new Date(deadline) : undefined,
+        priority: parsed.priority ?? priority,
+        deadline: due,
+        reminders: due && newReminders.length > 0 ? newReminders : undefined,
+        listId: currentList?.id,
+        tags: normalizeTags([...newTags, ...(parsed.tags ?? [])]),
+        repeat: parsed.repeat && { rule: parsed.repeat, occurrence: 1 },
+        order: orderForNew(todos, undefined, "first"),
+        fieldUpdatedAt: {},
       }
-      setTodos([todo, ...todos])
+      commit("Add task", [todo, ...todos])
       setNewTodo("")
+      setIgnoredParts([])
       setDescription("")
+      setNewTags([])
+      setNewReminders([])
       setPriority("medium")
       setDeadline("")
     }
   }
 
-  const toggleTodo = (id: string) => {
-    setTodos(todos.map((todo) => (todo.id === id ? { ...todo, completed: !todo.completed } : todo)))
+  // Quick-add syntax works here too, read relative to the chosen day
+  const addTodoOn = (day: Date, text: string) => {
+    const parsed = parseQuickAdd(text, startOfDay(day))
+    const todo: Todo = {
+      id: createId(),
+      text: parsed.text || text,
+      completed: false,
+      createdAt: new Date(),
+      priority: parsed.priority ?? "medium",
+      deadline: parsed.deadline ?? set(day, { hours: 23, minutes: 59, seconds: 0, milliseconds: 0 }),
+      listId: currentList?.id,
+      tags: parsed.tags,
+      repeat: parsed.repeat && { rule: parsed.repeat, occurrence: 1 },
+      order: orderForNew(todos, undefined, "first"),
+      fieldUpdatedAt: {},
+    }
+    commit("Add task", [todo, ...todos])
+  }
+
+  const addSubtask = (parentId: string, text: string) => {
+    const parent = todos.find((t) => t.id === parentId)
+    if (!parent) return
+    const subtask: Todo = {
+      id: createId(),
+      text,
+      completed: false,
+      createdAt: new Date(),
+      priority: parent.priority,
+      parentId,
+      listId: parent.listId,
+      order: orderForNew(todos, parentId, "last"),
+      fieldUpdatedAt: {},
+    }
+    let next = [...todos, subtask]
+    if (settings.autoCompleteParents) next = syncParentCompletion(next, subtask.id)
+    commit("Add subtask", next)
+    setCollapsedIds((current) => {
+      const expanded = new Set(current)
+      expanded.delete(parentId)
+      return expanded
+    })
+  }
+
+  // A task waiting on unfinished blockers is only completed from the toast's override
+  const toggleTodo = (id: string, force = false) => {
+    const toggled = todos.find((t) => t.id === id)
+    // The override only ever completes, and the task may have been completed while the toast was open
+    if (force && toggled?.completed) return
+    const blockers = toggled && !toggled.completed ? blockersOf(toggled, todos) : []
+    if (blockers.length > 0 && !force) {
+      toast({
+        title: "This task is blocked",
+        description: new BlockedError(blockers).message,
+        action: (
+          <ToastAction altText="Complete anyway" onClick={() => latestToggleTodo.current(id, true)}>
+            Complete anyway
+          </ToastAction>
+        ),
+      })
+      return
+    }
+    let next = toggleCompletion(todos, id)
+    if (settings.autoCompleteParents) next = syncParentCompletion(next, id)
+    commit(toggled?.completed ? "Reopen task" : "Complete task", next)
   }
 
+  // The toast outlives this render, so its override must toggle against the latest todos, not these
+  const latestToggleTodo = useRef(toggleTodo)
+  useEffect(() => {
+    latestToggleTodo.current = toggleTodo
+  })
+
+  const skipTodo = (id: string) => {
+    const skipped = todos.find((t) => t.id === id)
+    const next = skipped && skipOccurrence(skipped)
+    if (!next) {
+      toast({ title: "No more occurrences", description: "This was the last occurrence of the series." })
+      return
+    }
+    commit("Skip occurrence", todos.map((todo) => (todo.id === id ? next : todo)))
+  }
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  // Deleting a task takes its subtasks along, stamped with the same time so they are restored together
   const deleteTodo = (id: string) => {
-    setTodos(todos.filter((todo) => todo.id !== id))
+    const deleted = todos.find((t) => t.id === id)
+    const subtree = descendantIds(todos, id).add(id)
+    const deletedAt = new Date()
+    let next = todos.map((todo) => (subtree.has(todo.id) && !todo.deletedAt ? updateTodo(todo, { deletedAt }) : todo))
+    if (settings.autoCompleteParents) next = syncParentCompletion(next, id)
+    const entry = commit("Delete task", next)
+    if (entry && deleted) {
+      toast({
+        title: "Moved to trash",
+        description: deleted.text,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => undo(entry)}>
+            Undo
+          </ToastAction>
+        ),
+      })
+    }
   }
 
-  const startEditing = (id: string, text: string) => {
-    setEditingId(id)
-    setEditText(text)
+  const restoreTodo = (id: string) => {
+    const restored = todos.find((t) => t.id === id)
+    const subtree = descendantIds(todos, id)
+    let next = todos.map((todo) =>
+      todo.id === id || (subtree.has(todo.id) && todo.deletedAt?.getTime() === restored?.deletedAt?.getTime())
+        ? updateTodo(todo, { deletedAt: undefined })
+        : todo,
+    )
+    if (settings.autoCompleteParents) next = syncParentCompletion(next, id)
+    commit("Restore task", next)
   }
 
-  const saveEdit = () => {
-    if (editText.trim() !== "") {
-      setTodos(todos.map((todo) => (todo.id === editingId ? { ...todo, text: editText.trim() } : todo)))
+  const deleteForever = (id: string) => {
+    const deleted = todos.find((t) => t.id === id)
+    const subtree = descendantIds(todos, id).add(id)
+    const entry = commit("Delete task permanently", todos.filter((todo) => !subtree.has(todo.id)))
+    if (entry && deleted) {
+      toast({
+        title: "Deleted permanently",
+        description: deleted.text,
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => undo(entry)}>
+            Undo
+          </ToastAction>
+        ),
+      })
+    }
+  }
+
+  // Only the trash on show goes, with the subtasks trashed under it, so the count the user confirmed holds
+  const emptyTrash = () => {
+    const shown = new Set(trashedTodos.flatMap((todo) => [...descendantIds(todos, todo.id).add(todo.id)]))
+    const entry = commit("Empty trash", todos.filter((todo) => !(shown.has(todo.id) && isTrashed(todo))))
+    if (entry) {
+      toast({
+        title: "Trash emptied",
+        description: `${trashedTodos.length} task(s) deleted permanently`,
+        action: (
+          <ToastAction altText="Undo empty trash" onClick={() => undo(entry)}>
+            Undo
+          </ToastAction>
+        ),
+      })
     }
-    setEditingId(null)
-    setEditText("")
   }
 
-  const cancelEdit = () => {
+  // Subtasks follow their parent when it moves to another list
+  const saveEdit = (id: string, changes: TodoChanges) => {
+    const subtree = "listId" in changes ? descendantIds(todos, id) : new Set<string>()
+    commit(
+      "Edit task",
+      todos.map((todo) => {
+        if (todo.id === id) return updateTodo(todo, changes)
+        return subtree.has(todo.id) ? updateTodo(todo, { listId: changes.listId }) : todo
+      }),
+    )
     setEditingId(null)
-    setEditText("")
+    setEditingDetail(false)
   }
 
-  const filteredTodos = todos.filter((todo) => {
-    if (filter === "active") return !todo.completed
-    if (filter === "completed") return todo.completed
-    return true
-  })
+  const createList = (values: Omit<TodoList, "id">) => {
+    updateSettings({ lists: [...settings.lists, { ...values, id: createId() }] })
+  }
+
+  const updateList = (id: string, values: Omit<TodoList, "id">) => {
+    updateSettings({ lists: settings.lists.map((list) => (list.id === id ? { ...list, ...values } : list)) })
+  }
+
+  // Tasks of a deleted list move to the inbox rather than disappearing
+  const deleteList = (id: string) => {
+    commit(
+      "Delete list",
+      todos.map((todo) => (todo.listId === id ? updateTodo(todo, { listId: undefined }) : todo)),
+    )
+    updateSettings({ lists: settings.lists.filter((list) => list.id !== id) })
+    if (selectedList === id) setSelectedList(ALL_LISTS)
+  }
+
+  // A renamed tag keeps its colour unless it is merged into a tag that has one
+  const renameTagEverywhere = (from: string, to: string) => {
+    commit("Rename tag", renameTag(todos, from, to))
+    const { [from]: color, ...tagColors } = settings.tagColors
+    updateSettings({ tagColors: color && !tagColors[to] ? { ...tagColors, [to]: color } : tagColors })
+    setSelectedTags((current) => normalizeTags(current.map((tag) => (tag === from ? to : tag))) ?? [])
+  }
+
+  const recolorTag = (name: string, color: ListColor) => {
+    updateSettings({ tagColors: { ...settings.tagColors, [name]: color } })
+  }
+
+  const deleteTag = (name: string) => {
+    commit("Delete tag", removeTag(todos, name))
+    const { [name]: _, ...tagColors } = settings.tagColors
+    updateSettings({ tagColors })
+    setSelectedTags((current) => current.filter((tag) => tag !== name))
+  }
+
+  const toggleTagFilter = (name: string) => {
+    setSelectedTags((current) => (current.includes(name) ? current.filter((tag) => tag !== name) : [...current, name]))
+  }
+
+  // Saving moves the query from the search box into its own tab
+  const saveView = (name: string) => {
+    const view = { id: createId(), name, query: query.trim() }
+    updateSettings({ views: [...settings.views, view] })
+    setFilter(viewTab(view.id))
+    setQuery("")
+  }
+
+  const updateView = (id: string, viewQuery: string) => {
+    updateSettings({ views: settings.views.map((view) => (view.id === id ? { ...view, query: viewQuery } : view)) })
+    setQuery("")
+  }
+
+  const deleteView = (id: string) => {
+    const { [viewTab(id)]: _, ...sortOrders } = settings.sortOrders
+    updateSettings({ views: settings.views.filter((view) => view.id !== id), sortOrders })
+    if (filter === viewTab(id)) setFilter("all")
+  }
+
+  const setSortOrder = (order: SortOrder) => {
+    updateSettings({ sortOrders: { ...settings.sortOrders, [filter]: order } })
+  }
+
+  const moveOnBoard = (id: string, from: string, to: string) => {
+    // Dropping a blocked card on Done asks for the same override as ticking it
+    const moved = todos.find((t) => t.id === id)
+    if (settings.boardGrouping === "status" && to === "done" && moved && blockersOf(moved, todos).length > 0) {
+      if (!moved.completed) toggleTodo(id)
+      return
+    }
+    let next = moveToColumn(todos, id, settings.boardGrouping, from, to)
+    if (settings.autoCompleteParents) next = syncParentCompletion(next, id)
+    commit("Move task", next)
+  }
+
+  // Dragging an occurrence of a recurring task moves only that occurrence
+  const rescheduleTodo = (id: string, changes: TodoChanges) => {
+    const todo = todos.find((t) => t.id === id)
+    if (!todo) return
+    const occurrence = changesForOccurrence(todo, changes)
+    commit("Reschedule task", todos.map((t) => (t.id === id ? updateTodo(t, occurrence) : t)))
+  }
 
-  const completedCount = todos.filter((todo) => todo.completed).length
-  const activeCount = todos.filter((todo) => !todo.completed).length
-
-  const getPriorityColor = (priority: string) => {
-    switch (priority) {
-      case "high":
-        return "bg-red-100 text-red-800 border-red-200"
-      case "medium":
-        return "bg-yellow-100 text-yellow-800 border-yellow-200"
-      case "low":
-        return "bg-green-100 text-green-800 border-green-200"
-      default:
-        return "bg-gray-100 text-gray-800 border-gray-200"
+  // A start date moves along with the deadline, so the planned work keeps its length
+  const rescheduleToDay = (id: string, day: Date) => {
+    const todo = todos.find((t) => t.id === id)
+    if (!todo?.deadline) return
+    const deadline = moveToDay(todo.deadline, day)
+    const shift = deadline.getTime() - todo.deadline.getTime()
+    rescheduleTodo(id, { deadline, ...(todo.startDate && { startDate: new Date(todo.startDate.getTime() + shift) }) })
+  }
+
+  // Starting a timer stops any other that is running
+  const toggleTimer = (id: string) => {
+    if (runningTodo(todos)?.id === id) commit("Stop timer", stopTimer(todos))
+    else commit("Start timer", startTimer(todos, id))
+  }
+
+  const setTimeEntries = (id: string, entries: TimeEntry[]) => {
+    const timeEntries = entries.length > 0 ? entries : undefined
+    commit("Edit time entries", todos.map((t) => (t.id === id ? updateTodo(t, { timeEntries }) : t)))
+  }
+
+  // Time on every task outside the trash, whichever list is open
+  const exportTimesheet = () => {
+    const csv = timesheetCsv(timesheet(todos.filter((todo) => !isTrashed(todo))))
+    downloadFile(`timesheet-${format(new Date(), "yyyy-MM-dd")}.csv`, csv, "text/csv")
+  }
+
+  // Undo restores the tasks; settings and quarantined records stay as imported
+  const importBackup = (plan: ImportPlan, backup: Backup) => {
+    const entry = commit("Import backup", plan.todos)
+    updateSettings(plan.settings)
+    addToQuarantine([...backup.skipped, ...backup.quarantine])
+    const skipped = backup.skipped.length > 0 ? `, ${backup.skipped.length} skipped` : ""
+    toast({
+      title: "Backup imported",
+      description: `${plan.added} added, ${plan.updated} updated, ${plan.removed} removed${skipped}`,
+      action: entry ? (
+        <ToastAction altText="Undo import" onClick={() => undo(entry)}>
+          Undo
+        </ToastAction>
+      ) : undefined,
+    })
+  }
+
+  const setBlockedBy = (id: string, blockedBy: string[]) => {
+    try {
+      commit("Change blockers", setBlockers(todos, id, blockedBy))
+    } catch (error) {
+      if (!(error instanceof DependencyCycleError)) throw error
+      toast({ variant: "destructive", title: "Can't add this blocker", description: error.message })
     }
   }
 
-  const getPriorityIcon = (priority: string) => {
-    switch (priority) {
-      case "high":
-        return <Star className="w-3 h-3 fill-current" />
-      case "medium":
-        return <Star className="w-3 h-3" />
-      case "low":
-        return <Calendar className="w-3 h-3" />
-      default:
-        return null
+  const setWipLimit = (column: string, limit: number | null) => {
+    const key = wipLimitKey(settings.boardGrouping, column)
+    const { [key]: _, ...wipLimits } = settings.wipLimits
+    updateSettings({ wipLimits: limit ? { ...wipLimits, [key]: limit } : wipLimits })
+  }
+
+  const reorderTodo = (id: string, targetId: string, place: "before" | "after") => {
+    commit("Reorder task", moveTodo(todos, id, targetId, place))
+  }
+
+  // Moves a task past the nearest visible sibling above or below it
+  const moveRow = (index: number, direction: "up" | "down") => {
+    const { todo, depth } = rows[index]
+    const step = direction === "up" ? -1 : 1
+    for (let i = index + step; i >= 0 && i < rows.length && rows[i].depth >= depth; i += step) {
+      if (rows[i].depth === depth) {
+        reorderTodo(todo.id, rows[i].todo.id, direction === "up" ? "before" : "after")
+        return
+      }
     }
   }
 
-  const isOverdue = (todo: Todo) => {
-    if (!todo.deadline || todo.completed) return false
-    return new Date() > todo.deadline
+  const openTask = (id: string) => {
+    setSelectedId(id)
+    setShowTaskDetail(true)
   }
 
-  const formatDeadline = (date: Date) => {
-    const now = new Date()
-    const isToday = date.toDateString() === now.toDateString()
-    const isTomorrow = date.toDateString() === new Date(now.getTime() + 24 * 60 * 60 * 1000).toDateString()
+  const closeTaskDetail = () => {
+    setShowTaskDetail(false)
+    setEditingDetail(false)
+    setSelectedId(null)
+  }
 
-    if (isToday) {
-      return `Today at ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
-    } else if (isTomorrow) {
-      return `Tomorrow at ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
-    } else {
-      return date.toLocaleString([], {
-        month: "short",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      })
+  const currentList = settings.lists.find((list) => list.id === selectedList)
+  const listsById = new Map(settings.lists.map((list) => [list.id, list]))
+
+  // Counters count tasks without subtasks; a parent is only a roll-up of its children
+  const activeCounts: Record<string, number> = {}
+  for (const todo of leafTodos(todos.filter((t) => !isTrashed(t)))) {
+    if (todo.completed) continue
+    const key = listOf(todo, settings.lists)
+    activeCounts[key] = (activeCounts[key] ?? 0) + 1
+    activeCounts[ALL_LISTS] = (activeCounts[ALL_LISTS] ?? 0) + 1
+  }
+
+  const listTodos = todos.filter((todo) => isInList(todo, selectedList, settings.lists))
+  const liveTodos = listTodos.filter((todo) => !isTrashed(todo))
+  const activeView = settings.views.find((view) => viewTab(view.id) === filter)
+  const parsedQuery = safeParseQuery(query, { lists: settings.lists })
+  const parsedView = activeView ? safeParseQuery(activeView.query, { lists: settings.lists }) : null
+  // A search that does not parse yet filters nothing, while a saved view that stopped parsing shows nothing
+  const queries: ParsedQuery[] = [parsedQuery, parsedView].flatMap((parsed) => (parsed?.success ? [parsed.query] : []))
+  const terms = queries.flatMap((parsed) => parsed.terms)
+  const matches = new Map<string, SearchMatch>()
+  if (terms.length > 0) {
+    for (const todo of listTodos) {
+      const match = searchTodo(todo, terms)
+      if (match) matches.set(todo.id, match)
     }
   }
+  const matchesQuery = (todo: Todo) =>
+    parsedView?.success !== false &&
+    queries.every((parsed) => parsed.test(todo, now)) &&
+    (terms.length === 0 || matches.has(todo.id))
+
+  const trashedIds = new Set(todos.filter(isTrashed).map((todo) => todo.id))
+  // Subtasks trashed along with their parent are listed under it, not separately
+  const trashRoots = listTodos.filter((todo) => isTrashed(todo) && !(todo.parentId && trashedIds.has(todo.parentId)))
+  const trashedTodos = trashRoots
+    .filter(matchesQuery)
+    .sort((a, b) => (b.deletedAt?.getTime() ?? 0) - (a.deletedAt?.getTime() ?? 0))
+
+  const allTags = tagCounts(todos.filter((todo) => !isTrashed(todo)))
+  const tagNames = allTags.map((tag) => tag.name)
+
+  const isVisible = (todo: Todo) => {
+    if (!hasTags(todo, selectedTags) || !matchesQuery(todo)) return false
+    if (filter === "active") return !todo.completed
+    if (filter === "completed") return todo.completed
+    return true
+  }
+  const sortOrder = settings.sortOrders[filter] ?? defaultSortOrder
+  const rows = flattenTree(liveTodos, isVisible, collapsedIds, compareTodos(sortOrder))
+  // The board, calendar and timeline show matching todos only, without the parents the list keeps for context
+  const visibleTodos = liveTodos.filter(isVisible).sort(compareTodos(sortOrder))
+  const columns = settings.layout === "board" ? boardColumns(visibleTodos, settings.boardGrouping, tagNames) : []
+
+  const emptyMessage =
+    parsedView?.success === false
+      ? `This view's filter no longer works: ${parsedView.error.message}`
+      : query.trim()
+        ? `No tasks match “${query.trim()}”`
+        : activeView
+          ? "No tasks in this view"
+          : filter === "completed"
+            ? "No completed tasks yet"
+            : filter === "active"
+              ? "No active tasks"
+              : "No tasks yet. Add one above!"
+
+  const quickAdd = newTodo.trim() ? parseQuickAdd(newTodo, new Date(), ignoredParts) : null
+
+  const selectedTodo = todos.find((todo) => todo.id === selectedId) ?? null
+  const timedTodo = runningTodo(todos)
+
+  const countedTodos = leafTodos(liveTodos)
+  const completedCount = countedTodos.filter((todo) => todo.completed).length
+  const activeCount = countedTodos.filter((todo) => !todo.completed).length
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4">
-      <div className="max-w-2xl mx-auto">
-        <Card className="shadow-xl border-0 bg-white/80 backdrop-blur-sm">
-          <CardHeader className="text-center pb-6">
-            <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-              ✨ Beautiful Todo
-            </CardTitle>
-            <p className="text-gray-600 mt-2">Stay organized and productive</p>
-          </CardHeader>
-
-          <CardContent className="space-y-6">
-            {/* Add Todo Form */}
-            <div className="space-y-3">
-              <div className="flex gap-2">
-                <div className="flex-1 relative">
-                  <Input
-                    placeholder="What needs to be done?"
-                    value={newTodo}
-                    onChange={(e) => setNewTodo(e.target.value)}
-                    onKeyDown={(e) => e.key === "Enter" && addTodo()}
-                    className="pr-12 border-2 border-gray-200 focus:border-blue-400 transition-colors"
+    <SidebarProvider className="bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <ListSidebar
+        lists={settings.lists}
+        selected={selectedList}
+        activeCounts={activeCounts}
+        onSelect={setSelectedList}
+        onCreate={createList}
+        onUpdate={updateList}
+        onDelete={deleteList}
+      />
+
+      <main className="flex-1 min-w-0 p-4">
+        <SidebarTrigger className="mb-2" />
+        <div className="max-w-2xl mx-auto">
+          <Card className="shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+            <CardHeader className="text-center pb-6">
+              <CardTitle className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                ✨ Beautiful Todo
+              </CardTitle>
+              {currentList ? (
+                <p className="text-gray-600 mt-2 flex items-center justify-center gap-2">
+                  <ListIcon icon={currentList.icon} className="w-4 h-4" />
+                  {currentList.name}
+                </p>
+              ) : (
+                <p className="text-gray-600 mt-2">{selectedList === INBOX ? "Inbox" : "Stay organized and productive"}</p>
+              )}
+              {timedTodo && (
+                <div className="mx-auto mt-3 w-full max-w-sm text-left">
+                  <TimerIndicator
+                    todo={timedTodo}
+                    onOpen={() => openTask(timedTodo.id)}
+                    onStop={() => toggleTimer(timedTodo.id)}
                   />
-                  <Button
-                    onClick={addTodo}
-                    size="sm"
-                    className="absolute right-1 top-1 h-8 w-8 p-0 bg-blue-500 hover:bg-blue-600 transition-colors"
-                  >
-                    <Plus className="w-4 h-4" />
-                  </Button>
                 </div>
-              </div>
+              )}
+            </CardHeader>
 
-              {/* Priority Selector */}
-              <div className="flex gap-2 items-center">
-                <span className="text-sm text-gray-600">Priority:</span>
-                <div className="flex gap-1">
-                  {(["low", "medium", "high"] as const).map((p) => (
+            <CardContent className="space-y-6">
+              {storageError && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  <AlertTitle>Your saved tasks could not be loaded</AlertTitle>
+                  <AlertDescription>{storageError} Changes made now will not be saved.</AlertDescription>
+                </Alert>
+              )}
+
+              {todos.some((todo) => todo.reminders?.length && !isTrashed(todo)) && (
+                <ReminderPermission permission={permission} onRequest={requestPermission} />
+              )}
+
+              {/* Add Todo Form */}
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <div className="flex-1 relative">
+                    <Input
+                      placeholder="What needs to be done? Try: Send report tomorrow 5pm !high #work"
+                      value={newTodo}
+                      onChange={(e) => {
+                        setNewTodo(e.target.value)
+                        if (e.target.value === "") setIgnoredParts([])
+                      }}
+                      onKeyDown={(e) => e.key === "Enter" && addTodo()}
+                      className="pr-12 border-2 border-gray-200 focus:border-blue-400 transition-colors"
+                    />
                     <Button
-                      key={p}
-                      variant={priority === p ? "default" : "outline"}
+                      onClick={addTodo}
                       size="sm"
-                      onClick={() => setPriority(p)}
-                      className={`capitalize text-xs transition-all ${
-                        priority === p
-                          ? p === "high"
-                            ? "bg-red-500 hover:bg-red-600"
-                            : p === "medium"
-                              ? "bg-yellow-500 hover:bg-yellow-600"
-                              : "bg-green-500 hover:bg-green-600"
-                          : "hover:scale-105"
-                      }`}
+                      className="absolute right-1 top-1 h-8 w-8 p-0 bg-blue-500 hover:bg-blue-600 transition-colors"
                     >
-                      {getPriorityIcon(p)}
-                      <span className="ml-1">{p}</span>
+                      <Plus className="w-4 h-4" />
                     </Button>
-                  ))}
+                  </div>
+                </div>
+                {quickAdd && (
+                  <QuickAddPreview
+                    parsed={quickAdd}
+                    tagColors={settings.tagColors}
+                    onIgnore={(part) => setIgnoredParts((current) => [...current, part])}
+                  />
+                )}
+
+                {/* Priority Selector */}
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm text-gray-600">Priority:</span>
+                  <div className="flex gap-1">
+                    {(["low", "medium", "high"] as const).map((p) => (
+                      <Button
+                        key={p}
+                        variant={priority === p ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setPriority(p)}
+                        className={`capitalize text-xs transition-all ${
+                          priority === p
+                            ? p === "high"
+                              ? "bg-red-500 hover:bg-red-600"
+                              : p === "medium"
+                                ? "bg-yellow-500 hover:bg-yellow-600"
+                                : "bg-green-500 hover:bg-green-600"
+                            : "hover:scale-105"
+                        }`}
+                      >
+                        {getPriorityIcon(p)}
+                        <span className="ml-1">{p}</span>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Deadline Selector */}
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm text-gray-600">Deadline:</span>
+                  <Input
+                    type="datetime-local"
+                    value={deadline}
+                    onChange={(e) => setDeadline(e.target.value)}
+                    className="flex-1 text-sm"
+                    min={new Date().toISOString().slice(0, 16)}
+                  />
+                  {deadline && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeadline("")}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
-              </div>
 
-              {/* Deadline Selector */}
-              <div className="flex gap-2 items-center">
-                <span className="text-sm text-gray-600">Deadline:</span>
-                <Input
-                  type="datetime-local"
-                  value={deadline}
-                  onChange={(e) => setDeadline(e.target.value)}
-                  className="flex-1 text-sm"
-                  min={new Date().toISOString().slice(0, 16)}
-                />
                 {deadline && (
+                  <div className="flex gap-2 items-start">
+                    <span className="text-sm text-gray-600 mt-2">Remind:</span>
+                    <div className="flex-1">
+                      <ReminderInput value={newReminders} onChange={setNewReminders} hasDeadline />
+                    </div>
+                  </div>
+                )}
+
+                {/* Tags Input */}
+                <div className="flex gap-2 items-center">
+                  <span className="text-sm text-gray-600">Tags:</span>
+                  <TagInput
+                    value={newTags}
+                    onChange={setNewTags}
+                    suggestions={tagNames}
+                    tagColors={settings.tagColors}
+                    className="flex-1"
+                  />
+                </div>
+
+                {/* Description Input */}
+                <div className="flex gap-2 items-start">
+                  <span className="text-sm text-gray-600 mt-2">Description:</span>
+                  <textarea
+                    placeholder="Add a description (optional)..."
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    className="flex-1 min-h-[60px] px-3 py-2 border-2 border-gray-200 rounded-md focus:border-blue-400 transition-colors resize-none text-sm"
+                    rows={2}
+                  />
+                </div>
+              </div>
+
+              {/* Stats */}
+              <div className="flex justify-center items-center gap-4">
+                <div className="flex gap-1">
                   <Button
                     size="sm"
                     variant="ghost"
-                    onClick={() => setDeadline("")}
-                    className="text-gray-400 hover:text-gray-600"
+                    onClick={() => undo()}
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Nothing to undo"}
+                    className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
                   >
-                    <X className="w-4 h-4" />
+                    <Undo2 className="w-4 h-4" />
                   </Button>
-                )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => redo()}
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                    className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
+                  >
+                    <Redo2 className="w-4 h-4" />
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Settings"
+                        className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
+                      >
+                        <Settings2 className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start">
+                      <DropdownMenuLabel>Subtasks</DropdownMenuLabel>
+                      <DropdownMenuCheckboxItem
+                        checked={settings.autoCompleteParents}
+                        onCheckedChange={(checked) => updateSettings({ autoCompleteParents: checked })}
+                      >
+                        Auto-complete parent tasks
+                      </DropdownMenuCheckboxItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setTagManagerOpen(true)}>
+                        <Tags className="w-4 h-4 mr-2" />
+                        Manage tags
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Time tracking</DropdownMenuLabel>
+                      <DropdownMenuItem onClick={exportTimesheet}>
+                        <FileDown className="w-4 h-4 mr-2" />
+                        Export timesheet (CSV)
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setBackupOpen(true)}>
+                        <DatabaseBackup className="w-4 h-4 mr-2" />
+                        Backup & restore
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setDashboardOpen(true)}
+                    title="Dashboard"
+                    className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <Badge variant="secondary" className="px-3 py-1">
+                  {activeCount} active
+                </Badge>
+                <Badge variant="secondary" className="px-3 py-1">
+                  {completedCount} completed
+                </Badge>
+                <Badge variant="secondary" className="px-3 py-1">
+                  {countedTodos.length} total
+                </Badge>
               </div>
 
-              {/* Description Input */}
-              <div className="flex gap-2 items-start">
-                <span className="text-sm text-gray-600 mt-2">Description:</span>
-                <textarea
-                  placeholder="Add a description (optional)..."
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  className="flex-1 min-h-[60px] px-3 py-2 border-2 border-gray-200 rounded-md focus:border-blue-400 transition-colors resize-none text-sm"
-                  rows={2}
-                />
-              </div>
-            </div>
-
-            {/* Stats */}
-            <div className="flex justify-center gap-4">
-              <Badge variant="secondary" className="px-3 py-1">
-                {activeCount} active
-              </Badge>
-              <Badge variant="secondary" className="px-3 py-1">
-                {completedCount} completed
-              </Badge>
-              <Badge variant="secondary" className="px-3 py-1">
-                {todos.length} total
-              </Badge>
-            </div>
-
-            {/* Filter Tabs */}
-            <Tabs value={filter} onValueChange={(value) => setFilter(value as any)} className="w-full">
-              <TabsList className="grid w-full grid-cols-3 bg-gray-100">
-                <TabsTrigger value="all" className="transition-all">
-                  All
-                </TabsTrigger>
-                <TabsTrigger value="active" className="transition-all">
-                  Active
-                </TabsTrigger>
-                <TabsTrigger value="completed" className="transition-all">
-                  Completed
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value={filter} className="mt-4">
-                <div className="space-y-2 max-h-96 overflow-y-auto">
-                  {filteredTodos.length === 0 ? (
-                    <div className="text-center py-8 text-gray-500">
-                      <div className="text-4xl mb-2">🎯</div>
-                      <p>
-                        {filter === "completed"
-                          ? "No completed tasks yet"
-                          : filter === "active"
-                            ? "No active tasks"
-                            : "No tasks yet. Add one above!"}
-                      </p>
-                    </div>
-                  ) : (
-                    filteredTodos.map((todo, index) => (
-                      <div
-                        key={todo.id}
-                        className={`group p-4 rounded-lg border-2 transition-all duration-300 hover:shadow-md transform hover:-translate-y-1 animate-slide-in ${
-                          isOverdue(todo)
-                            ? "bg-red-50 border-red-300 shadow-red-100"
-                            : todo.completed
-                              ? "bg-gray-50 border-gray-200 opacity-75"
-                              : "bg-white border-gray-200 hover:border-blue-300"
+              {/* Search and filter query */}
+              <QueryInput
+                value={query}
+                onChange={setQuery}
+                inputRef={searchRef}
+                error={parsedQuery.success ? null : parsedQuery.error}
+                lists={settings.lists}
+                tags={tagNames}
+                onSaveView={saveView}
+              />
+
+              {/* Filter Tabs */}
+              <Tabs value={filter} onValueChange={(value) => setFilter(value as any)} className="w-full">
+                <TabsList className="flex w-full justify-start overflow-x-auto bg-gray-100">
+                  <TabsTrigger value="all" className="flex-1 transition-all">
+                    All
+                  </TabsTrigger>
+                  <TabsTrigger value="active" className="flex-1 transition-all">
+                    Active
+                  </TabsTrigger>
+                  <TabsTrigger value="completed" className="flex-1 transition-all">
+                    Completed
+                  </TabsTrigger>
+                  {settings.views.map((view) => (
+                    <TabsTrigger key={view.id} value={viewTab(view.id)} title={view.query} className="flex-1 transition-all">
+                      <Bookmark className="w-3 h-3 mr-1" />
+                      {view.name}
+                    </TabsTrigger>
+                  ))}
+                  <TabsTrigger value="trash" className="flex-1 transition-all">
+                    Trash{trashRoots.length > 0 && ` (${trashRoots.length})`}
+                  </TabsTrigger>
+                </TabsList>
+
+                {activeView && (
+                  <div className="flex items-center gap-2 mt-3 text-sm text-gray-600">
+                    <span>Filter:</span>
+                    <code className="truncate rounded bg-gray-100 px-1.5 py-0.5 font-mono text-xs">{activeView.query}</code>
+                    {parsedQuery.success && query.trim() && query.trim() !== activeView.query && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateView(activeView.id, query.trim())}
+                        className="h-6 px-2 text-xs text-gray-500"
+                      >
+                        Use search as filter
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => deleteView(activeView.id)}
+                      title="Delete view"
+                      aria-label={`Delete view ${activeView.name}`}
+                      className="ml-auto h-6 px-2 text-gray-500 hover:text-red-600"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+
+                {filter !== "trash" && allTags.length > 0 && (
+                  <div className="flex items-center gap-1 flex-wrap mt-3">
+                    <span className="text-sm text-gray-600 mr-1">Tags:</span>
+                    {allTags.map(({ name }) => (
+                      <button
+                        key={name}
+                        type="button"
+                        onClick={() => toggleTagFilter(name)}
+                        aria-pressed={selectedTags.includes(name)}
+                        className={`rounded-md transition-all ${
+                          selectedTags.includes(name) ? "ring-2 ring-blue-400" : "opacity-60 hover:opacity-100"
                         }`}
-                        style={{ animationDelay: `${index * 50}ms` }}
                       >
-                        <div className="flex items-center gap-3">
-                          <Checkbox
-                            checked={todo.completed}
-                            onCheckedChange={() => toggleTodo(todo.id)}
-                            className="transition-transform hover:scale-110"
-                          />
+                        <TagBadge name={name} color={tagColor(name, settings.tagColors)} />
+                      </button>
+                    ))}
+                    {selectedTags.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setSelectedTags([])}
+                        className="h-6 px-2 text-xs text-gray-500"
+                      >
+                        Clear
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setTagManagerOpen(true)}
+                      title="Manage tags"
+                      className="h-6 px-2 text-gray-500"
+                    >
+                      <Tags className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
 
-                          <div className="flex-1 min-w-0">
-                            {editingId === todo.id ? (
-                              <div className="flex gap-2">
-                                <Input
-                                  value={editText}
-                                  onChange={(e) => setEditText(e.target.value)}
-                                  onKeyDown={(e) => {
-                                    if (e.key === "Enter") saveEdit()
-                                    if (e.key === "Escape") cancelEdit()
-                                  }}
-                                  className="flex-1"
-                                  autoFocus
-                                />
-                                <Button size="sm" onClick={saveEdit} className="bg-green-500 hover:bg-green-600">
-                                  <Check className="w-4 h-4" />
-                                </Button>
-                                <Button size="sm" variant="outline" onClick={cancelEdit}>
-                                  <X className="w-4 h-4" />
-                                </Button>
-                              </div>
-                            ) : (
-                              <div className="space-y-1">
-                                <div className="flex items-center gap-2">
-                                  <p
-                                    className={`flex-1 transition-all ${
-                                      todo.completed ? "line-through text-gray-500" : "text-gray-900"
-                                    }`}
-                                  >
-                                    {todo.text}
-                                  </p>
-                                  {isOverdue(todo) && (
-                                    <Badge variant="destructive" className="text-xs animate-pulse">
-                                      OVERDUE
-                                    </Badge>
-                                  )}
-                                </div>
-                                <div className="flex items-center gap-2 flex-wrap">
-                                  <Badge variant="outline" className={`text-xs ${getPriorityColor(todo.priority)}`}>
-                                    {getPriorityIcon(todo.priority)}
-                                    <span className="ml-1 capitalize">{todo.priority}</span>
-                                  </Badge>
-                                  {todo.deadline && (
-                                    <Badge
-                                      variant="outline"
-                                      className={`text-xs flex items-center gap-1 ${
-                                        isOverdue(todo)
-                                          ? "bg-red-100 text-red-800 border-red-200"
-                                          : "bg-blue-100 text-blue-800 border-blue-200"
-                                      }`}
-                                    >
-                                      <Calendar className="w-3 h-3" />
-                                      {formatDeadline(todo.deadline)}
-                                    </Badge>
-                                  )}
-                                  <span className="text-xs text-gray-400">{todo.createdAt.toLocaleDateString()}</span>
-                                </div>
-                              </div>
-                            )}
-                          </div>
-
-                          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                            {editingId !== todo.id && (
-                              <>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => {
-                                    setSelectedTodo(todo)
-                                    setShowTaskDetail(true)
-                                  }}
-                                  className="hover:bg-purple-100 hover:text-purple-600 transition-colors"
-                                >
-                                  <Eye className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => startEditing(todo.id, todo.text)}
-                                  className="hover:bg-blue-100 hover:text-blue-600 transition-colors"
-                                >
-                                  <Edit3 className="w-4 h-4" />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => deleteTodo(todo.id)}
-                                  className="hover:bg-red-100 hover:text-red-600 transition-colors"
-                                >
-                                  <Trash2 className="w-4 h-4" />
-                                </Button>
-                              </>
-                            )}
-                          </div>
+                {filter !== "trash" && (
+                  <div className="flex items-center justify-between gap-2 flex-wrap mt-3">
+                    {settings.layout !== "calendar" && <SortControls order={sortOrder} onChange={setSortOrder} />}
+                    <div className="flex items-center gap-2 ml-auto">
+                      {settings.layout === "board" && (
+                        <Select
+                          value={settings.boardGrouping}
+                          onValueChange={(value) => updateSettings({ boardGrouping: value as BoardGrouping })}
+                        >
+                          <SelectTrigger className="h-8 w-32 text-sm" aria-label="Columns">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {boardGroupings.map((grouping) => (
+                              <SelectItem key={grouping} value={grouping} className="capitalize">
+                                By {grouping}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <ToggleGroup
+                        type="single"
+                        variant="outline"
+                        size="sm"
+                        value={settings.layout}
+                        onValueChange={(layout) => layout && updateSettings({ layout: layout as typeof settings.layout })}
+                      >
+                        <ToggleGroupItem value="list" aria-label="List" title="List">
+                          <LayoutList className="w-4 h-4" />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="board" aria-label="Board" title="Board">
+                          <SquareKanban className="w-4 h-4" />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="calendar" aria-label="Calendar" title="Calendar">
+                          <CalendarDays className="w-4 h-4" />
+                        </ToggleGroupItem>
+                        <ToggleGroupItem value="timeline" aria-label="Timeline" title="Timeline">
+                          <GanttChart className="w-4 h-4" />
+                        </ToggleGroupItem>
+                      </ToggleGroup>
+                    </div>
+                  </div>
+                )}
+
+                <TabsContent value={filter} className="mt-4">
+                  {filter === "trash" ? (
+                    <TrashView
+                      todos={trashedTodos}
+                      retentionDays={settings.trashRetentionDays}
+                      onRetentionChange={(days) => updateSettings({ trashRetentionDays: days })}
+                      onRestore={restoreTodo}
+                      onDeleteForever={deleteForever}
+                      onEmpty={emptyTrash}
+                    />
+                  ) : settings.layout === "board" ? (
+                    <TodoBoard
+                      columns={columns}
+                      allTodos={todos}
+                      grouping={settings.boardGrouping}
+                      tagColors={settings.tagColors}
+                      wipLimits={Object.fromEntries(
+                        columns.map(({ key }) => [key, settings.wipLimits[wipLimitKey(settings.boardGrouping, key)]]),
+                      )}
+                      matches={matches}
+                      onMove={moveOnBoard}
+                      onToggle={toggleTodo}
+                      onOpen={openTask}
+                      onWipLimitChange={setWipLimit}
+                    />
+                  ) : settings.layout === "calendar" ? (
+                    <CalendarView
+                      todos={visibleTodos}
+                      mode={settings.calendarMode}
+                      undatedCount={visibleTodos.filter((todo) => !todo.deadline).length}
+                      onModeChange={(calendarMode) => updateSettings({ calendarMode })}
+                      onReschedule={rescheduleToDay}
+                      onCreate={addTodoOn}
+                      onOpen={openTask}
+                    />
+                  ) : settings.layout === "timeline" ? (
+                    <TimelineView
+                      todos={visibleTodos}
+                      zoom={settings.timelineZoom}
+                      undatedCount={visibleTodos.filter((todo) => !barOf(todo)).length}
+                      onZoomChange={(timelineZoom) => updateSettings({ timelineZoom })}
+                      onChange={rescheduleTodo}
+                      onOpen={openTask}
+                    />
+                  ) : (
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {rows.length === 0 ? (
+                        <div className="text-center py-8 text-gray-500">
+                          <div className="text-4xl mb-2">🎯</div>
+                          <p>{emptyMessage}</p>
                         </div>
-                      </div>
-                    ))
+                      ) : (
+                        rows.map(({ todo, depth, hasChildren }, index) => (
+                          <TodoItem
+                            key={todo.id}
+                            todo={todo}
+                            index={index}
+                            depth={depth}
+                            list={selectedList === ALL_LISTS && todo.listId ? listsById.get(todo.listId) : undefined}
+                            lists={settings.lists}
+                            tags={tagNames}
+                            tagColors={settings.tagColors}
+                            editing={editingId === todo.id}
+                            collapsed={collapsedIds.has(todo.id)}
+                            progress={hasChildren ? progressOf(liveTodos, todo.id) : null}
+                            match={matches.get(todo.id)}
+                            sortable={sortOrder.by === "manual"}
+                            onToggle={() => toggleTodo(todo.id)}
+                            onToggleCollapsed={() => toggleCollapsed(todo.id)}
+                            onView={() => openTask(todo.id)}
+                            onEdit={() => setEditingId(todo.id)}
+                            onSaveEdit={(changes) => saveEdit(todo.id, changes)}
+                            onCancelEdit={() => setEditingId(null)}
+                            onDelete={() => deleteTodo(todo.id)}
+                            onSkip={() => skipTodo(todo.id)}
+                            onAddSubtask={(text) => addSubtask(todo.id, text)}
+                            onMove={(direction) => moveRow(index, direction)}
+                            onDropTodo={(id, place) => reorderTodo(id, todo.id, place)}
+                            onTimer={() => toggleTimer(todo.id)}
+                            blockers={blockersOf(todo, todos)}
+                          />
+                        ))
+                      )}
+                    </div>
                   )}
-                </div>
-              </TabsContent>
-            </Tabs>
-          </CardContent>
-        </Card>
-      </div>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <TagManager
+        open={tagManagerOpen}
+        onOpenChange={setTagManagerOpen}
+        tags={allTags}
+        tagColors={settings.tagColors}
+        onRename={renameTagEverywhere}
+        onRecolor={recolorTag}
+        onDelete={deleteTag}
+      />
+
+      <Dashboard open={dashboardOpen} onOpenChange={setDashboardOpen} todos={countedTodos} />
+
+      <BackupDialog
+        open={backupOpen}
+        onOpenChange={setBackupOpen}
+        todos={todos}
+        settings={settings}
+        onImport={importBackup}
+      />
 
       {/* Task Detail Modal */}
       {showTaskDetail && selectedTodo && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-          <Card className="w-full max-w-md bg-white shadow-2xl">
+          <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-white shadow-2xl">
             <CardHeader className="pb-4">
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Task Details</CardTitle>
                 <Button
                   size="sm"
                   variant="ghost"
-                  onClick={() => {
-                    setShowTaskDetail(false)
-                    setSelectedTodo(null)
-                  }}
+                  onClick={closeTaskDetail}
                   className="hover:bg-gray-100"
                 >
                   <X className="w-4 h-4" />
                 </Button>
               </div>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <h3 className="font-semibold text-gray-900 mb-2">Title</h3>
-                <p className={`${selectedTodo.completed ? "line-through text-gray-500" : "text-gray-800"}`}>
-                  {selectedTodo.text}
-                </p>
-              </div>
-
-              {selectedTodo.description && (
+            {editingDetail ? (
+              <CardContent>
+                <TodoEditor
+                  todo={selectedTodo}
+                  lists={settings.lists}
+                  tags={tagNames}
+                  tagColors={settings.tagColors}
+                  onSave={(changes) => saveEdit(selectedTodo.id, changes)}
+                  onCancel={() => setEditingDetail(false)}
+                />
+              </CardContent>
+            ) : (
+              <CardContent className="space-y-4">
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-2">Description</h3>
-                  <p className="text-gray-700 whitespace-pre-wrap bg-gray-50 p-3 rounded-md">
-                    {selectedTodo.description}
+                  <h3 className="font-semibold text-gray-900 mb-2">Title</h3>
+                  <p className={`${selectedTodo.completed ? "line-through text-gray-500" : "text-gray-800"}`}>
+                    <Highlight text={selectedTodo.text} ranges={matches.get(selectedTodo.id)?.text} />
                   </p>
                 </div>
-              )}
 
-              <div className="grid grid-cols-2 gap-4">
+                {selectedTodo.description && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Description</h3>
+                    <p className="text-gray-700 whitespace-pre-wrap bg-gray-50 p-3 rounded-md">
+                      <Highlight text={selectedTodo.description} ranges={matches.get(selectedTodo.id)?.description} />
+                    </p>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Priority</h3>
+                    <Badge variant="outline" className={`${getPriorityColor(selectedTodo.priority)}`}>
+                      {getPriorityIcon(selectedTodo.priority)}
+                      <span className="ml-1 capitalize">{selectedTodo.priority}</span>
+                    </Badge>
+                  </div>
+
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Status</h3>
+                    <Badge variant={selectedTodo.completed ? "default" : "secondary"}>
+                      {selectedTodo.completed ? "Completed" : "Active"}
+                    </Badge>
+                  </div>
+                </div>
+
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-2">Priority</h3>
-                  <Badge variant="outline" className={`${getPriorityColor(selectedTodo.priority)}`}>
-                    {getPriorityIcon(selectedTodo.priority)}
-                    <span className="ml-1 capitalize">{selectedTodo.priority}</span>
-                  </Badge>
+                  <h3 className="font-semibold text-gray-900 mb-2">List</h3>
+                  {selectedTodo.listId && listsById.has(selectedTodo.listId) ? (
+                    <ListBadge list={listsById.get(selectedTodo.listId)!} />
+                  ) : (
+                    <p className="text-sm text-gray-600">Inbox</p>
+                  )}
                 </div>
 
+                {selectedTodo.repeat && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Repeats</h3>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <RepeatBadge todo={selectedTodo} />
+                      <span className="text-xs text-gray-500">
+                        {upcomingDate(selectedTodo)
+                          ? `Next: ${upcomingDate(selectedTodo)!.toLocaleDateString()}`
+                          : "Last occurrence"}
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {selectedTodo.tags && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Tags</h3>
+                    <div className="flex gap-1 flex-wrap">
+                      {selectedTodo.tags.map((tag) => (
+                        <TagBadge key={tag} name={tag} color={tagColor(tag, settings.tagColors)} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selectedTodo.deadline && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Deadline</h3>
+                    <Badge
+                      variant="outline"
+                      className={`${
+                        isOverdue(selectedTodo)
+                          ? "bg-red-100 text-red-800 border-red-200"
+                          : "bg-blue-100 text-blue-800 border-blue-200"
+                      }`}
+                    >
+                      <Calendar className="w-3 h-3 mr-1" />
+                      {formatDeadline(selectedTodo.deadline)}
+                    </Badge>
+                    {isOverdue(selectedTodo) && (
+                      <Badge variant="destructive" className="ml-2 animate-pulse">
+                        OVERDUE
+                      </Badge>
+                    )}
+                  </div>
+                )}
+
+                {(selectedTodo.startDate || selectedTodo.duration) && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-2">Planning</h3>
+                    <div className="flex gap-2 flex-wrap">
+                      {selectedTodo.startDate && (
+                        <Badge variant="outline">
+                          <GanttChart className="w-3 h-3 mr-1" />
+                          Starts {formatDeadline(selectedTodo.startDate)}
+                        </Badge>
+                      )}
+                      {selectedTodo.duration && (
+                        <Badge variant="outline">Estimate: {formatDuration(selectedTodo.duration)}</Badge>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <TaskDependencies
+                  todo={selectedTodo}
+                  todos={todos}
+                  onAdd={(blockerId) => setBlockedBy(selectedTodo.id, [...(selectedTodo.blockedBy ?? []), blockerId])}
+                  onRemove={(blockerId) =>
+                    setBlockedBy(selectedTodo.id, selectedTodo.blockedBy?.filter((id) => id !== blockerId) ?? [])
+                  }
+                  onOpen={openTask}
+                />
+
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-2">Status</h3>
-                  <Badge variant={selectedTodo.completed ? "default" : "secondary"}>
-                    {selectedTodo.completed ? "Completed" : "Active"}
-                  </Badge>
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-gray-900">Time tracked</h3>
+                    <span className="flex-1 text-sm text-gray-600">
+                      <ElapsedTime todo={selectedTodo} />
+                      {selectedTodo.duration && ` of ${formatDuration(selectedTodo.duration)} estimated`}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => toggleTimer(selectedTodo.id)}>
+                      {timedTodo?.id === selectedTodo.id ? (
+                        <>
+                          <Square className="w-4 h-4 mr-1" />
+                          Stop
+                        </>
+                      ) : (
+                        <>
+                          <Play className="w-4 h-4 mr-1" />
+                          Start
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                  <TimeEntries
+                    entries={selectedTodo.timeEntries ?? []}
+                    onChange={(entries) => setTimeEntries(selectedTodo.id, entries)}
+                  />
                 </div>
-              </div>
 
-              {selectedTodo.deadline && (
                 <div>
-                  <h3 className="font-semibold text-gray-900 mb-2">Deadline</h3>
-                  <Badge
-                    variant="outline"
-                    className={`${
-                      isOverdue(selectedTodo)
-                        ? "bg-red-100 text-red-800 border-red-200"
-                        : "bg-blue-100 text-blue-800 border-blue-200"
+                  <h3 className="font-semibold text-gray-900 mb-2">Created</h3>
+                  <p className="text-sm text-gray-600">{selectedTodo.createdAt.toLocaleString()}</p>
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                  <Button
+                    onClick={() => toggleTodo(selectedTodo.id)}
+                    className={`flex-1 ${
+                      selectedTodo.completed ? "bg-yellow-500 hover:bg-yellow-600" : "bg-green-500 hover:bg-green-600"
                     }`}
                   >
-                    <Calendar className="w-3 h-3 mr-1" />
-                    {formatDeadline(selectedTodo.deadline)}
-                  </Badge>
-                  {isOverdue(selectedTodo) && (
-                    <Badge variant="destructive" className="ml-2 animate-pulse">
-                      OVERDUE
-                    </Badge>
-                  )}
+                    {selectedTodo.completed ? "Mark as Active" : "Mark as Complete"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setEditingDetail(true)}
+                    className="flex-1"
+                  >
+                    <Edit3 className="w-4 h-4 mr-1" />
+                    Edit
+                  </Button>
                 </div>
-              )}
-
-              <div>
-                <h3 className="font-semibold text-gray-900 mb-2">Created</h3>
-                <p className="text-sm text-gray-600">{selectedTodo.createdAt.toLocaleString()}</p>
-              </div>
-
-              <div className="flex gap-2 pt-4">
-                <Button
-                  onClick={() => {
-                    toggleTodo(selectedTodo.id)
-                    setSelectedTodo({
-                      ...selectedTodo,
-                      completed: !selectedTodo.completed,
-                    })
-                  }}
-                  className={`flex-1 ${
-                    selectedTodo.completed ? "bg-yellow-500 hover:bg-yellow-600" : "bg-green-500 hover:bg-green-600"
-                  }`}
-                >
-                  {selectedTodo.completed ? "Mark as Active" : "Mark as Complete"}
-                </Button>
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    startEditing(selectedTodo.id, selectedTodo.text)
-                    setShowTaskDetail(false)
-                    setSelectedTodo(null)
-                  }}
-                  className="flex-1"
-                >
-                  <Edit3 className="w-4 h-4 mr-1" />
-                  Edit
-                </Button>
-              </div>
-            </CardContent>
+              </CardContent>
+            )}
           </Card>
         </div>
       )}
@@ -542,6 +1328,6 @@ export default function TodoApp() {
     animation: slideIn 0.3s ease-out forwards;
   }
 `}</style>
-    </div>
+    </SidebarProvider>
   )
 }